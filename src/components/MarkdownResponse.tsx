@@ -0,0 +1,89 @@
+import React from 'react';
+import { isSafeUrl, parseInline, type MarkdownBlock } from '@/utils/responseFormatter';
+
+interface MarkdownResponseProps {
+  blocks: MarkdownBlock[];
+  // Called with the index of a clicked block
+  onBlockClick?: (index: number) => void;
+}
+
+// Renders parsed markdown as React elements; model output never reaches the DOM as HTML
+const renderInline = (text: string): React.ReactNode =>
+  parseInline(text).map((node, index) => {
+    switch (node.type) {
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-black/30 px-1 font-mono text-sm">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return (
+          <strong key={index} className="font-semibold text-white">
+            {node.text}
+          </strong>
+        );
+      case 'em':
+        return <em key={index}>{node.text}</em>;
+      case 'link':
+        return isSafeUrl(node.url) ? (
+          <a key={index} href={node.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">
+            {node.text}
+          </a>
+        ) : (
+          node.text
+        );
+      default:
+        return node.text;
+    }
+  });
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base'];
+
+const renderBlock = (block: MarkdownBlock): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p className={`font-semibold text-white ${HEADING_CLASSES[Math.min(block.level, 3) - 1]}`}>
+          {renderInline(block.text)}
+        </p>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List className={`space-y-1 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, index) => (
+            <li key={index}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'quote':
+      return <blockquote className="border-l-2 border-white/40 pl-3 italic">{renderInline(block.text)}</blockquote>;
+    case 'code':
+      return (
+        <pre className="overflow-x-auto rounded bg-black/30 p-3 font-mono text-sm">
+          <code>{block.text}</code>
+        </pre>
+      );
+    default:
+      return <p>{renderInline(block.text)}</p>;
+  }
+};
+
+const MarkdownResponse: React.FC<MarkdownResponseProps> = ({ blocks, onBlockClick }) => (
+  <div className="space-y-3 text-gray-200 leading-relaxed">
+    {blocks.map((block, index) => (
+      <div
+        key={index}
+        onClick={onBlockClick && (() => onBlockClick(index))}
+        title={onBlockClick ? 'Read from here' : undefined}
+        className={onBlockClick ? 'cursor-pointer rounded transition-colors hover:bg-white/10' : undefined}
+      >
+        {renderBlock(block)}
+      </div>
+    ))}
+  </div>
+);
+
+export default MarkdownResponse;
@@ -1,23 +1,175 @@
-
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { Card } from '@/components/ui/card';
-import { Volume2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Volume2, ExternalLink, Pause, Play, Square, RotateCcw, ListPlus } from 'lucide-react';
+import type { SearchResult } from '@/utils/searchAndSummarize';
+import type { SpeechProgress, SpeechState } from '@/hooks/useTextToSpeech';
+import { blockSentenceOffsets, parseMarkdown, spokenSentences, stripReasoning } from '@/utils/responseFormatter';
+import MarkdownResponse from '@/components/MarkdownResponse';
 
 interface ResponseDisplayProps {
   response: string;
-  isSpeaking: boolean;
+  result?: SearchResult | null;
+  speechState: SpeechState;
+  speechProgress?: SpeechProgress;
+  isStreaming?: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  // Restart speech from the given sentence; defaults to the first
+  onReplay: (fromIndex?: number) => void;
+  // Ask the same question again for a detailed answer; hidden when not given
+  onTellMeMore?: () => void;
 }
 
-const ResponseDisplay: React.FC<ResponseDisplayProps> = ({ response, isSpeaking }) => {
+const controlClassName = 'bg-transparent border-white/40 text-white hover:bg-white/20 hover:text-white';
+
+const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
+  response,
+  result,
+  speechState,
+  speechProgress,
+  isStreaming = false,
+  onPause,
+  onResume,
+  onStop,
+  onReplay,
+  onTellMeMore,
+}) => {
+  const blocks = useMemo(() => parseMarkdown(stripReasoning(response)), [response]);
+  // The same sentences the speech queue was given, so indices match its progress
+  const sentences = useMemo(() => spokenSentences(response), [response]);
+  const blockOffsets = useMemo(() => blockSentenceOffsets(blocks), [blocks]);
+  const currentSentenceRef = useRef<HTMLSpanElement>(null);
+  const currentIndex = speechState !== 'idle' && speechProgress ? speechProgress.current : -1;
+
+  // Keep the sentence being read in view
+  useEffect(() => {
+    currentSentenceRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [currentIndex]);
+
   if (!response) return null;
 
+  const isSpeaking = speechState === 'speaking';
+
+  // The current sentence with the word being spoken marked
+  const renderCurrentSentence = (sentence: string) => {
+    if (!speechProgress) return sentence;
+    const { wordStart, wordLength } = speechProgress;
+    if (wordStart < 0 || wordStart >= sentence.length) return sentence;
+    return (
+      <>
+        {sentence.slice(0, wordStart)}
+        <mark className="rounded bg-yellow-300 text-gray-900">{sentence.slice(wordStart, wordStart + wordLength)}</mark>
+        {sentence.slice(wordStart + wordLength)}
+      </>
+    );
+  };
+
   return (
     <Card className="p-6 bg-white/10 backdrop-blur border-white/20">
       <div className="flex items-center gap-3 mb-3">
         <Volume2 className={`w-5 h-5 text-green-400 ${isSpeaking ? 'animate-pulse' : ''}`} />
         <h3 className="text-lg font-semibold text-white">AMIRA's Response</h3>
+
+        {/* Playback controls */}
+        <div className="ml-auto flex items-center gap-2">
+          {speechState !== 'idle' && speechProgress && speechProgress.current >= 0 && (
+            <span className="text-xs text-gray-400">
+              {speechProgress.current + 1} / {speechProgress.total}
+            </span>
+          )}
+          {speechState === 'speaking' && (
+            <Button variant="outline" size="sm" onClick={onPause} className={controlClassName}>
+              <Pause className="w-4 h-4" />
+              Pause
+            </Button>
+          )}
+          {speechState === 'paused' && (
+            <Button variant="outline" size="sm" onClick={onResume} className={controlClassName}>
+              <Play className="w-4 h-4" />
+              Resume
+            </Button>
+          )}
+          {speechState !== 'idle' && (
+            <Button variant="outline" size="sm" onClick={onStop} className={controlClassName}>
+              <Square className="w-4 h-4" />
+              Stop
+            </Button>
+          )}
+          {speechState === 'idle' && !isStreaming && (
+            <Button variant="outline" size="sm" onClick={() => onReplay()} className={controlClassName}>
+              <RotateCcw className="w-4 h-4" />
+              Replay
+            </Button>
+          )}
+          {onTellMeMore && result && result.mode !== 'detailed' && !isStreaming && (
+            <Button variant="outline" size="sm" onClick={onTellMeMore} className={controlClassName}>
+              <ListPlus className="w-4 h-4" />
+              Tell me more
+            </Button>
+          )}
+        </div>
       </div>
-      <p className="text-gray-200 leading-relaxed">{response}</p>
+      {isStreaming ? (
+        <>
+          <MarkdownResponse blocks={blocks} />
+          <span className="inline-block w-2 h-4 mt-1 align-middle bg-gray-200 animate-pulse" />
+        </>
+      ) : currentIndex >= 0 ? (
+        // While reading, show the spoken text so the current sentence and word can be marked
+        <p className="text-gray-200 leading-relaxed whitespace-pre-line">
+          {sentences.map((sentence, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && ' '}
+              <span
+                ref={index === currentIndex ? currentSentenceRef : undefined}
+                onClick={() => onReplay(index)}
+                title="Read from here"
+                className={`cursor-pointer rounded transition-colors hover:bg-white/10 ${
+                  index === currentIndex ? 'bg-white/20 text-white' : ''
+                }`}
+              >
+                {index === currentIndex ? renderCurrentSentence(sentence) : sentence}
+              </span>
+            </React.Fragment>
+          ))}
+        </p>
+      ) : (
+        <MarkdownResponse blocks={blocks} onBlockClick={(index) => onReplay(blockOffsets[index])} />
+      )}
+
+      {/* Sources are listed for reference only and never spoken */}
+      {result && result.sources.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-white/20">
+          <h4 className="text-sm font-semibold text-white mb-2">Sources</h4>
+          <ol className="space-y-1 text-sm list-decimal list-inside">
+            {result.sources.map((source, index) => (
+              <li key={`${source.url ?? source.title}-${index}`} className="text-gray-200">
+                {source.url ? (
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 underline hover:text-white"
+                  >
+                    {source.title}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                ) : (
+                  source.title
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {result && (
+        <p className="mt-3 text-xs text-gray-400">
+          {result.provider} · {result.model} · {result.mode} · {(result.timings.totalMs / 1000).toFixed(1)}s
+        </p>
+      )}
     </Card>
   );
 };
@@ -0,0 +1,45 @@
+import React from 'react';
+import { HelpCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { VOICE_COMMANDS } from '@/utils/voiceCommands';
+
+const VoiceCommandsDialog: React.FC = () => (
+  <Dialog>
+    <DialogTrigger asChild>
+      <Button
+        variant="outline"
+        size="sm"
+        className="bg-transparent border-white/40 text-white hover:bg-white/20 hover:text-white"
+      >
+        <HelpCircle className="w-4 h-4" />
+        Commands
+      </Button>
+    </DialogTrigger>
+    <DialogContent className="max-h-[85vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Voice commands</DialogTitle>
+        <DialogDescription>
+          Say one of these on its own instead of a question. Commands are handled right away, without searching.
+        </DialogDescription>
+      </DialogHeader>
+      <dl className="space-y-3">
+        {VOICE_COMMANDS.map((command) => (
+          <div key={command.type}>
+            <dt className="font-medium">{command.examples.map((example) => `“${example}”`).join(', ')}</dt>
+            <dd className="text-sm text-muted-foreground">{command.description}</dd>
+          </div>
+        ))}
+      </dl>
+    </DialogContent>
+  </Dialog>
+);
+
+export default VoiceCommandsDialog;
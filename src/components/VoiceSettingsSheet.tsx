@@ -0,0 +1,149 @@
+import React from 'react';
+import { Settings2, Play, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { languageCode } from '@/utils/languages';
+import { DEFAULT_VOICE_SETTINGS, MAX_RATE, MIN_RATE, type VoiceSettings } from '@/utils/voiceSettings';
+
+interface VoiceSettingsSheetProps {
+  settings: VoiceSettings;
+  voices: SpeechSynthesisVoice[];
+  onChange: (settings: VoiceSettings) => void;
+  onPreview: () => void;
+  disabled?: boolean;
+}
+
+// Select value standing in for voiceURI === null, since Radix Select items cannot be empty
+const AUTO_VOICE = 'auto';
+
+const SLIDERS: Array<{ key: 'rate' | 'pitch' | 'volume'; label: string; min: number; max: number; step: number }> = [
+  { key: 'rate', label: 'Speed', min: MIN_RATE, max: MAX_RATE, step: 0.05 },
+  { key: 'pitch', label: 'Pitch', min: 0, max: 2, step: 0.05 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05 },
+];
+
+const languageNames = new Intl.DisplayNames([navigator.language || 'en'], { type: 'language' });
+
+const languageName = (code: string): string => {
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+// Voices grouped by language, groups sorted by their display name
+const groupVoices = (voices: SpeechSynthesisVoice[]): Array<{ language: string; voices: SpeechSynthesisVoice[] }> => {
+  const groups = new Map<string, SpeechSynthesisVoice[]>();
+  for (const voice of voices) {
+    const language = languageName(languageCode(voice.lang));
+    groups.set(language, [...(groups.get(language) ?? []), voice]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([language, groupVoices]) => ({ language, voices: groupVoices }));
+};
+
+const VoiceSettingsSheet: React.FC<VoiceSettingsSheetProps> = ({ settings, voices, onChange, onPreview, disabled = false }) => {
+  const voiceGroups = groupVoices(voices);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className="bg-transparent border-white/40 text-white hover:bg-white/20 hover:text-white"
+        >
+          <Settings2 className="w-4 h-4" />
+          Voice
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Voice settings</SheetTitle>
+          <SheetDescription>Choose how AMIRA sounds when reading answers aloud.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="voice">Voice</Label>
+            <Select
+              value={settings.voiceURI ?? AUTO_VOICE}
+              onValueChange={(value) => onChange({ ...settings, voiceURI: value === AUTO_VOICE ? null : value })}
+            >
+              <SelectTrigger id="voice">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_VOICE}>Automatic (matches the language)</SelectItem>
+                {voiceGroups.map((group) => (
+                  <SelectGroup key={group.language}>
+                    <SelectLabel>{group.language}</SelectLabel>
+                    {group.voices.map((voice) => (
+                      <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                        {voice.name} ({voice.lang}){voice.localService ? '' : ' · online'}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+            {voices.length === 0 && (
+              <p className="text-sm text-muted-foreground">This browser has not reported any voices.</p>
+            )}
+          </div>
+
+          {SLIDERS.map((slider) => (
+            <div key={slider.key} className="space-y-3">
+              <div className="flex justify-between">
+                <Label>{slider.label}</Label>
+                <span className="text-sm text-muted-foreground">{settings[slider.key].toFixed(2)}</span>
+              </div>
+              <Slider
+                aria-label={slider.label}
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={[settings[slider.key]]}
+                onValueChange={([value]) => onChange({ ...settings, [slider.key]: value })}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button onClick={onPreview}>
+              <Play className="w-4 h-4" />
+              Preview
+            </Button>
+            <Button variant="outline" onClick={() => onChange(DEFAULT_VOICE_SETTINGS)}>
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VoiceSettingsSheet;
@@ -1,28 +1,115 @@
+import React, { useEffect, useRef } from 'react';
 
-import React from 'react';
+export type VisualizerStyle = 'bars' | 'mirrored';
 
 interface VoiceVisualizerProps {
   isListening: boolean;
   isSpeaking: boolean;
+  // Microphone analyser; drives the bars from real levels while listening
+  analyser?: AnalyserNode | null;
+  barCount?: number;
+  variant?: VisualizerStyle;
+  width?: number;
+  height?: number;
 }
 
-const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ isListening, isSpeaking }) => {
-  const isActive = isListening || isSpeaking;
-  
+// Height of a bar when there is no sound, as a fraction of the canvas
+const RESTING_LEVEL = 0.08;
+
+// Speech synthesis output cannot be analysed, so speaking is shown as a moving wave
+// whose shape drifts over time to look like a voice
+const syntheticLevels = (barCount: number, time: number): number[] =>
+  Array.from({ length: barCount }, (_, i) => {
+    const wave = Math.sin(time / 180 + i * 0.6) * 0.5 + 0.5;
+    const envelope = Math.sin(time / 700) * 0.25 + 0.6;
+    return RESTING_LEVEL + wave * envelope * 0.7;
+  });
+
+// Average the analyser's frequency bins into barCount levels between 0 and 1
+const analyserLevels = (analyser: AnalyserNode, bins: Uint8Array, barCount: number): number[] => {
+  analyser.getByteFrequencyData(bins);
+  // The top of the spectrum carries little of the voice, so only the lower part is shown
+  const usableBins = Math.floor(bins.length * 0.7);
+  const binsPerBar = Math.max(1, Math.floor(usableBins / barCount));
+
+  return Array.from({ length: barCount }, (_, i) => {
+    let sum = 0;
+    for (let j = 0; j < binsPerBar; j++) {
+      sum += bins[i * binsPerBar + j] ?? 0;
+    }
+    return Math.max(RESTING_LEVEL, sum / binsPerBar / 255);
+  });
+};
+
+const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({
+  isListening,
+  isSpeaking,
+  analyser = null,
+  barCount = 24,
+  variant = 'mirrored',
+  width = 320,
+  height = 80,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    // Draw at the display's pixel density so the bars stay crisp
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = width * pixelRatio;
+    canvas.height = height * pixelRatio;
+    context.scale(pixelRatio, pixelRatio);
+
+    const gradient = context.createLinearGradient(0, height, 0, 0);
+    gradient.addColorStop(0, '#a855f7');
+    gradient.addColorStop(1, '#3b82f6');
+
+    const bins = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
+    const gap = 3;
+    const barWidth = Math.max(1, (width - gap * (barCount - 1)) / barCount);
+    let frame = 0;
+
+    const draw = (time: number) => {
+      const levels =
+        isListening && analyser && bins
+          ? analyserLevels(analyser, bins, barCount)
+          : isSpeaking
+            ? syntheticLevels(barCount, time)
+            : Array<number>(barCount).fill(RESTING_LEVEL);
+
+      context.clearRect(0, 0, width, height);
+      context.fillStyle = gradient;
+      levels.forEach((level, i) => {
+        const barHeight = Math.max(2, level * height);
+        const x = i * (barWidth + gap);
+        // Mirrored bars grow from the middle, plain bars from the bottom
+        const y = variant === 'mirrored' ? (height - barHeight) / 2 : height - barHeight;
+        context.beginPath();
+        context.roundRect(x, y, barWidth, barHeight, barWidth / 2);
+        context.fill();
+      });
+
+      // Idle bars never change, so there is no need to keep animating
+      if (isListening || isSpeaking) {
+        frame = requestAnimationFrame(draw);
+      }
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [isListening, isSpeaking, analyser, barCount, variant, width, height]);
+
   return (
-    <div className="flex items-center justify-center space-x-2 h-20">
-      {[...Array(5)].map((_, i) => (
-        <div
-          key={i}
-          className={`
-            w-1 bg-gradient-to-t from-purple-500 to-blue-500 rounded-full transition-all duration-300
-            ${isActive ? 'voice-wave' : 'h-4'}
-          `}
-          style={{
-            animationDelay: `${i * 0.1}s`,
-          }}
-        />
-      ))}
+    <div className="flex items-center justify-center h-20">
+      <canvas
+        ref={canvasRef}
+        style={{ width, height }}
+        role="img"
+        aria-label={isListening ? 'Microphone level' : isSpeaking ? 'Speaking' : 'Idle'}
+      />
     </div>
   );
 };
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { createVoiceActivityDetector } from '@/utils/voiceActivity';
+
+interface BargeInOptions {
+  enabled: boolean;
+  // Listen for the user only while this is true, i.e. while the assistant is talking
+  active: boolean;
+  // The user started talking; called at most once per active period
+  onBargeIn: () => void;
+}
+
+// Watches the microphone while the assistant speaks so the user can interrupt by talking
+export const useBargeIn = ({ enabled, active, onBargeIn }: BargeInOptions): void => {
+  // Latest callback, so an inline function does not restart the detector on every render
+  const onBargeInRef = useRef(onBargeIn);
+  onBargeInRef.current = onBargeIn;
+
+  useEffect(() => {
+    if (!enabled || !active || !navigator.mediaDevices?.getUserMedia) return;
+
+    const detector = createVoiceActivityDetector({
+      onSpeechStart: () => {
+        console.log('User started speaking; interrupting the response');
+        onBargeInRef.current();
+      },
+    });
+    detector.start().catch((error) => {
+      console.error('Barge-in detection unavailable:', error);
+    });
+
+    return () => detector.stop();
+  }, [enabled, active]);
+};
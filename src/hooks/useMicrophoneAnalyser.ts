@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+
+// Opens the microphone while enabled and returns an AnalyserNode on it, for level meters
+export const useMicrophoneAnalyser = (enabled: boolean): AnalyserNode | null => {
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices?.getUserMedia) return;
+
+    let active = true;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then((micStream) => {
+        if (!active) {
+          micStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = micStream;
+        audioContext = new AudioContext();
+        const node = audioContext.createAnalyser();
+        node.fftSize = 256;
+        node.smoothingTimeConstant = 0.8;
+        audioContext.createMediaStreamSource(micStream).connect(node);
+        setAnalyser(node);
+      })
+      .catch((error) => {
+        // The recognizer reports permission problems; the meter just stays flat
+        console.warn('Microphone level meter unavailable:', error);
+      });
+
+    return () => {
+      active = false;
+      setAnalyser(null);
+      audioContext?.close();
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [enabled]);
+
+  return analyser;
+};
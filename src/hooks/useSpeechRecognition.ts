@@ -1,26 +1,33 @@
 import { useState, useEffect, useRef } from 'react';
+import { createWhisperRecognizer, isWhisperSupported, type WhisperErrorCode } from '@/utils/whisperRecognizer';
+import { DEFAULT_LOCALE, languageCode } from '@/utils/languages';
 
 // Define SpeechRecognition interface for TypeScript
-interface SpeechRecognition extends EventTarget {
+export interface SpeechRecognition extends EventTarget {
   continuous: boolean;
   interimResults: boolean;
   lang: string;
   start: () => void;
   stop: () => void;
+  abort: () => void;
+  onstart: () => void;
   onresult: (event: SpeechRecognitionEvent) => void;
   onerror: (event: SpeechRecognitionErrorEvent) => void;
   onend: () => void;
 }
 
-interface SpeechRecognitionEvent {
+export interface SpeechRecognitionEvent {
+  resultIndex: number;
   results: SpeechRecognitionResultList;
 }
 
 interface SpeechRecognitionResultList {
+  length: number;
   [index: number]: SpeechRecognitionResult;
 }
 
 interface SpeechRecognitionResult {
+  isFinal: boolean;
   [index: number]: SpeechRecognitionAlternative;
 }
 
@@ -28,65 +35,236 @@ interface SpeechRecognitionAlternative {
   transcript: string;
 }
 
-interface SpeechRecognitionErrorEvent {
-  error: string;
+export interface SpeechRecognitionErrorEvent {
+  error: BrowserRecognitionErrorCode;
+  message?: string;
 }
 
+// SpeechRecognitionErrorEvent.error values
+type BrowserRecognitionErrorCode =
+  | 'no-speech'
+  | 'aborted'
+  | 'audio-capture'
+  | 'network'
+  | 'not-allowed'
+  | 'service-not-allowed'
+  | 'bad-grammar'
+  | 'language-not-supported';
+
+// Failures from either engine; Whisper reuses the browser codes where they overlap
+export type RecognitionErrorCode = Exclude<BrowserRecognitionErrorCode, 'aborted'> | WhisperErrorCode;
+
+export interface RecognitionError {
+  code: RecognitionErrorCode;
+  message: string;
+}
+
+// Where the recognizer is in its lifecycle. 'starting' covers the wait for microphone
+// permission; 'transcribing' only happens with Whisper, after recording stops.
+export type RecognitionStatus =
+  | { state: 'idle' }
+  | { state: 'starting' }
+  | { state: 'listening' }
+  | { state: 'transcribing' }
+  | { state: 'error'; error: RecognitionError };
+
+// 'browser' uses the Web Speech API (usually a cloud recognizer); 'whisper' transcribes on-device
+export type RecognitionEngine = 'browser' | 'whisper';
+
+interface SpeechRecognitionOptions {
+  engine?: RecognitionEngine;
+  // Locale to recognize, e.g. 'fr-FR'
+  language?: string;
+  // Keep listening across pauses and join every final result into one transcript
+  continuous?: boolean;
+  // In continuous mode, stop after this long without new speech
+  silenceTimeoutMs?: number;
+  // Called once for each failed recognition session
+  onError?: (error: RecognitionError) => void;
+}
+
+const DEFAULT_SILENCE_TIMEOUT_MS = 3000;
+
 interface SpeechRecognitionHook {
   startListening: () => void;
   stopListening: () => void;
   transcript: string;
+  // What has been heard so far in the current session, updated while the user talks
+  interimTranscript: string;
   isSupported: boolean;
+  status: RecognitionStatus;
 }
 
-export const useSpeechRecognition = (): SpeechRecognitionHook => {
+// The part of a recognizer the hook drives, shared by both engines
+interface Recognizer {
+  start: () => void;
+  stop: () => void;
+}
+
+export const getBrowserRecognition = () =>
+  (window.SpeechRecognition || window.webkitSpeechRecognition) as {
+    new (): SpeechRecognition;
+  } | undefined;
+
+export const isEngineSupported = (engine: RecognitionEngine): boolean =>
+  engine === 'whisper' ? isWhisperSupported() : Boolean(getBrowserRecognition());
+
+// Prefer the browser recognizer and fall back to Whisper where there is none (e.g. Firefox)
+export const defaultRecognitionEngine = (): RecognitionEngine =>
+  isEngineSupported('browser') || !isWhisperSupported() ? 'browser' : 'whisper';
+
+const joinTranscripts = (...parts: string[]) => parts.map((part) => part.trim()).filter(Boolean).join(' ');
+
+export const useSpeechRecognition = ({
+  engine = 'browser',
+  language = DEFAULT_LOCALE,
+  continuous = false,
+  silenceTimeoutMs = DEFAULT_SILENCE_TIMEOUT_MS,
+  onError,
+}: SpeechRecognitionOptions = {}): SpeechRecognitionHook => {
   const [transcript, setTranscript] = useState('');
+  const [interimTranscript, setInterimTranscript] = useState('');
   const [isSupported, setIsSupported] = useState(false);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const [status, setStatus] = useState<RecognitionStatus>({ state: 'idle' });
+  const recognitionRef = useRef<Recognizer | null>(null);
+  // Latest callback, so passing an inline function does not recreate the recognizer
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  // Final results collected so far in a continuous session
+  const finalTranscriptRef = useRef('');
 
   useEffect(() => {
+    setIsSupported(false);
+    setStatus({ state: 'idle' });
+    recognitionRef.current = null;
+
+    const fail = (code: RecognitionErrorCode, message: string) => {
+      const error = { code, message };
+      setStatus({ state: 'error', error });
+      onErrorRef.current?.(error);
+    };
+    // An ended session is idle unless it ended because of an error
+    const settle = () => setStatus((current) => (current.state === 'error' ? current : { state: 'idle' }));
+
+    if (engine === 'whisper') {
+      if (isWhisperSupported()) {
+        setIsSupported(true);
+
+        // Whisper transcribes the whole clip at the end, so there are no interim results;
+        // continuous mode just tolerates longer pauses before it stops recording
+        const recognizer = createWhisperRecognizer({
+          onResult: (result) => {
+            console.log('Whisper recognition result:', result);
+            setTranscript(result);
+          },
+          onStart: () => setStatus({ state: 'listening' }),
+          onError: (code, message) => {
+            console.error('Whisper recognition error:', code, message);
+            setTranscript('');
+            fail(code, message);
+          },
+          onTranscribing: () => setStatus({ state: 'transcribing' }),
+          onEnd: () => {
+            settle();
+            console.log('Whisper recognition ended');
+          },
+        }, {
+          // Whisper takes the bare language code and has no notion of accents
+          language: languageCode(language),
+          trailingSilenceMs: continuous ? silenceTimeoutMs : undefined,
+        });
+
+        recognitionRef.current = recognizer;
+        return () => recognizer.abort();
+      }
+      return;
+    }
+
     // Check if speech recognition is supported
-    const SpeechRecognition = (window.SpeechRecognition || window.webkitSpeechRecognition) as {
-      new (): SpeechRecognition;
-    } | undefined;
+    const SpeechRecognition = getBrowserRecognition();
 
     if (SpeechRecognition) {
       setIsSupported(true);
 
       const recognition = new SpeechRecognition();
-      recognition.continuous = false;
-      recognition.interimResults = false;
-      recognition.lang = 'en-US';
+      recognition.continuous = continuous;
+      recognition.interimResults = true;
+      recognition.lang = language;
+
+      let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+      const clearSilenceTimer = () => {
+        if (silenceTimer) clearTimeout(silenceTimer);
+        silenceTimer = null;
+      };
+
+      recognition.onstart = () => setStatus({ state: 'listening' });
 
       recognition.onresult = (event: SpeechRecognitionEvent) => {
-        const result = event.results[0][0].transcript;
-        console.log('Speech recognition result:', result);
-        setTranscript(result);
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (result.isFinal) {
+            finalTranscriptRef.current = joinTranscripts(finalTranscriptRef.current, result[0].transcript);
+          } else {
+            interim = joinTranscripts(interim, result[0].transcript);
+          }
+        }
+        setInterimTranscript(joinTranscripts(finalTranscriptRef.current, interim));
+
+        if (continuous) {
+          // Any new speech restarts the countdown to the end of the dictation
+          clearSilenceTimer();
+          silenceTimer = setTimeout(() => recognition.stop(), silenceTimeoutMs);
+        } else if (finalTranscriptRef.current) {
+          console.log('Speech recognition result:', finalTranscriptRef.current);
+          setTranscript(finalTranscriptRef.current);
+        }
       };
 
       recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
         console.error('Speech recognition error:', event.error);
         setTranscript('');
+        // 'aborted' only follows our own abort() and is not worth reporting
+        if (event.error !== 'aborted') {
+          fail(event.error, event.message || event.error);
+        }
       };
 
       recognition.onend = () => {
+        clearSilenceTimer();
+        settle();
+        // A continuous session is only complete once the recognizer stops
+        if (continuous && finalTranscriptRef.current) {
+          console.log('Speech recognition result:', finalTranscriptRef.current);
+          setTranscript(finalTranscriptRef.current);
+        }
         console.log('Speech recognition ended');
       };
 
       recognitionRef.current = recognition;
-    }
 
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-    };
-  }, []);
+      return () => {
+        clearSilenceTimer();
+        recognition.onend = () => undefined;
+        recognition.onerror = () => undefined;
+        recognition.abort();
+      };
+    }
+  }, [engine, language, continuous, silenceTimeoutMs]);
 
   const startListening = () => {
     if (recognitionRef.current) {
       setTranscript('');
-      recognitionRef.current.start();
+      setInterimTranscript('');
+      finalTranscriptRef.current = '';
+      setStatus({ state: 'starting' });
+      try {
+        recognitionRef.current.start();
+      } catch (error) {
+        // The browser recognizer throws InvalidStateError when it is already running
+        console.error('Could not start speech recognition:', error);
+        setStatus({ state: 'idle' });
+      }
     }
   };
 
@@ -100,6 +278,8 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
     startListening,
     stopListening,
     transcript,
+    interimTranscript,
     isSupported,
+    status,
   };
 };
\ No newline at end of file
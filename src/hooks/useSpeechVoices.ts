@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { waitForVoices } from '@/utils/voiceSettings';
+
+// Every voice the browser offers, kept up to date as voices load or change
+export const useSpeechVoices = (): SpeechSynthesisVoice[] => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+
+    let active = true;
+    waitForVoices().then((loaded) => {
+      if (active) setVoices(loaded);
+    });
+
+    const handleVoicesChanged = () => setVoices(speechSynthesis.getVoices());
+    speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+    return () => {
+      active = false;
+      speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+    };
+  }, []);
+
+  return voices;
+};
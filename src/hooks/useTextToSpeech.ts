@@ -1,69 +1,267 @@
+import { useCallback, useRef, useState } from 'react';
+import { DEFAULT_LOCALE } from '@/utils/languages';
+import { splitForSpeech } from '@/utils/sentences';
+import { DEFAULT_VOICE_SETTINGS, voicesForLocale, waitForVoices, type VoiceSettings } from '@/utils/voiceSettings';
 
-import { useCallback } from 'react';
+interface TextToSpeechOptions {
+  // Locale to speak in, e.g. 'sw-KE'; picks a matching voice when one is installed
+  language?: string;
+  // Voice, rate, pitch and volume; the voice overrides the language match when set
+  settings?: VoiceSettings;
+}
+
+export type SpeechState = 'idle' | 'speaking' | 'paused';
+
+// Position in the queue of sentences spoken since the last speak()
+export interface SpeechProgress {
+  // Index of the sentence being spoken, or -1 when nothing is
+  current: number;
+  total: number;
+  // Character range of the word being spoken within the current sentence, from boundary
+  // events; wordStart is -1 before the first word or when the voice reports no boundaries
+  wordStart: number;
+  wordLength: number;
+}
 
 interface TextToSpeechHook {
+  // Resolves when the text has been spoken, or as soon as it is cancelled.
+  // Text is spoken a sentence at a time, so long answers are not cut off.
   speak: (text: string) => Promise<void>;
+  // Speak after everything already queued, without interrupting it; safe to call
+  // repeatedly with new sentences while an answer is still streaming in
+  enqueue: (text: string) => Promise<void>;
+  // Add text to the answer for replay and progress without speaking it, e.g. while muted
+  record: (text: string) => void;
+  pause: () => void;
+  resume: () => void;
+  // Stop speaking and drop everything queued
+  cancel: () => void;
+  // Cancel and forget what was spoken, so the next enqueue() starts a new answer for
+  // replay and progress
+  reset: () => void;
+  // Speak the last answer again: the last speak() or reset() plus everything enqueued after it,
+  // starting from the given sentence
+  replay: (fromIndex?: number) => Promise<void>;
+  state: SpeechState;
+  progress: SpeechProgress;
 }
 
-export const useTextToSpeech = (): TextToSpeechHook => {
-  const speak = useCallback((text: string): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      if (!('speechSynthesis' in window)) {
-        reject(new Error('Speech synthesis not supported'));
-        return;
+const createUtterance = (
+  text: string,
+  locale: string,
+  settings: VoiceSettings,
+  allVoices: SpeechSynthesisVoice[]
+): SpeechSynthesisUtterance => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = locale;
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+  utterance.volume = settings.volume;
+
+  // A voice picked in the settings wins
+  const chosenVoice = settings.voiceURI ? allVoices.find(voice => voice.voiceURI === settings.voiceURI) : undefined;
+  if (chosenVoice) {
+    utterance.voice = chosenVoice;
+    utterance.lang = chosenVoice.lang;
+    return utterance;
+  }
+
+  // Try to find a female voice
+  const voices = voicesForLocale(allVoices, locale);
+  const femaleVoice = voices.find(voice =>
+    voice.name.includes('female') || voice.name.includes('Female')
+  );
+
+  // Use a female voice if found, otherwise try to select one by name
+  if (femaleVoice) {
+    utterance.voice = femaleVoice;
+  } else {
+    // Common female voice names across different platforms
+    const preferredVoices = [
+      'Google US English Female',
+      'Microsoft Zira',
+      'Samantha',
+      'Female'
+    ];
+
+    for (const name of preferredVoices) {
+      const voice = voices.find(v => v.name.includes(name));
+      if (voice) {
+        utterance.voice = voice;
+        break;
       }
+    }
+  }
+
+  // Otherwise any voice for the language beats the browser default, which may speak another one
+  if (!utterance.voice && voices.length > 0) {
+    utterance.voice = voices[0];
+  }
 
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Configure voice settings for a more natural female voice
-      utterance.rate = 0.85;
-      utterance.pitch = 1.1;
-      utterance.volume = 0.9;
-      
-      // Try to find a female voice
-      const voices = speechSynth.getVoices();
-      const femaleVoice = voices.find(voice => 
-        (voice.name.includes('female') || voice.name.includes('Female')) && 
-        voice.lang.includes('en')
-      );
-      
-      // Use a female voice if found, otherwise try to select one by name
-      if (femaleVoice) {
-        utterance.voice = femaleVoice;
+  return utterance;
+};
+
+// isCurrent is checked once the voices are loaded, so a cancel during that wait is honoured
+const playUtterance = async (
+  text: string,
+  locale: string,
+  settings: VoiceSettings,
+  isCurrent: () => boolean,
+  onWord?: (start: number, length: number) => void
+): Promise<void> => {
+  if (!('speechSynthesis' in window)) {
+    throw new Error('Speech synthesis not supported');
+  }
+
+  const voices = await waitForVoices();
+  if (!isCurrent()) return;
+
+  return new Promise((resolve, reject) => {
+    const utterance = createUtterance(text, locale, settings, voices);
+
+    utterance.onend = () => {
+      resolve();
+    };
+
+    utterance.onboundary = (event) => {
+      if (event.name !== 'word' || !onWord) return;
+      // charLength is missing in some browsers; measure the word ourselves
+      const length = event.charLength || text.slice(event.charIndex).match(/^\S+/)?.[0].length || 0;
+      onWord(event.charIndex, length);
+    };
+
+    utterance.onerror = (event) => {
+      // Cancelling surfaces as an error event; for callers it just means speech is over
+      if (event.error === 'canceled' || event.error === 'interrupted') {
+        resolve();
       } else {
-        // Common female voice names across different platforms
-        const preferredVoices = [
-          'Google US English Female',
-          'Microsoft Zira',
-          'Samantha',
-          'Female'
-        ];
-        
-        for (const name of preferredVoices) {
-          const voice = voices.find(v => v.name.includes(name) && v.lang.includes('en'));
-          if (voice) {
-            utterance.voice = voice;
-            break;
-          }
-        }
+        reject(new Error(`Speech synthesis error: ${event.error}`));
       }
+    };
 
-      utterance.onend = () => {
-        resolve();
-      };
+    speechSynthesis.speak(utterance);
+  });
+};
 
-      utterance.onerror = (event) => {
-        reject(new Error(`Speech synthesis error: ${event}`));
-      };
+export const useTextToSpeech = ({
+  language = DEFAULT_LOCALE,
+  settings = DEFAULT_VOICE_SETTINGS,
+}: TextToSpeechOptions = {}): TextToSpeechHook => {
+  const [state, setState] = useState<SpeechState>('idle');
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [total, setTotal] = useState(0);
+  const [word, setWord] = useState({ start: -1, length: 0 });
+  // Read at play time so queued sentences use the current options without recreating callbacks
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // Tail of the chain of queued utterances
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  // Bumped on cancel so already-queued utterances are dropped
+  const generationRef = useRef(0);
+  // Sentences queued since the last speak() or reset(), for progress and replay
+  const spokenTextsRef = useRef<string[]>([]);
 
-      // Cancel any ongoing speech
-      speechSynthesis.cancel();
-      speechSynthesis.speak(utterance);
+  // Make spoken the new tail of the queue, going idle once it finishes with nothing queued behind it
+  const track = useCallback((spoken: Promise<void>, generation: number): Promise<void> => {
+    const tail = spoken.catch(() => undefined);
+    queueRef.current = tail;
+    setState((current) => (current === 'paused' ? current : 'speaking'));
+    tail.then(() => {
+      if (queueRef.current === tail && generation === generationRef.current) {
+        setState('idle');
+        setCurrentIndex(-1);
+      }
     });
+    return spoken;
   }, []);
 
-  return { speak };
-};
+  const enqueue = useCallback((text: string): Promise<void> => {
+    const generation = generationRef.current;
+    // Skip utterances queued before the last cancel
+    const isCurrent = () => generation === generationRef.current;
+
+    const spoken = splitForSpeech(text).map((sentence) => {
+      const index = spokenTextsRef.current.push(sentence) - 1;
+      const played = queueRef.current.then(() => {
+        if (!isCurrent()) return undefined;
+        setCurrentIndex(index);
+        setWord({ start: -1, length: 0 });
+        return playUtterance(sentence, languageRef.current, settingsRef.current, isCurrent, (start, length) => {
+          if (isCurrent()) setWord({ start, length });
+        });
+      });
+      return track(played, generation);
+    });
+
+    setTotal(spokenTextsRef.current.length);
+    return Promise.all(spoken).then(() => undefined);
+  }, [track]);
+
+  const record = useCallback((text: string) => {
+    spokenTextsRef.current.push(...splitForSpeech(text));
+    setTotal(spokenTextsRef.current.length);
+  }, []);
+
+  const cancel = useCallback(() => {
+    generationRef.current += 1;
+    queueRef.current = Promise.resolve();
+    if ('speechSynthesis' in window) {
+      speechSynthesis.cancel();
+      // Some browsers stay paused after a cancel and would hold back the next utterance
+      if (speechSynthesis.paused) speechSynthesis.resume();
+    }
+    setState('idle');
+    setCurrentIndex(-1);
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    spokenTextsRef.current = [];
+    setTotal(0);
+    setWord({ start: -1, length: 0 });
+  }, [cancel]);
+
+  const speak = useCallback((text: string): Promise<void> => {
+    // Cancel any ongoing speech
+    reset();
+    return enqueue(text);
+  }, [reset, enqueue]);
+
+  const pause = useCallback(() => {
+    if ('speechSynthesis' in window && speechSynthesis.speaking) {
+      speechSynthesis.pause();
+      setState('paused');
+    }
+  }, []);
+
+  const resume = useCallback(() => {
+    if ('speechSynthesis' in window) {
+      speechSynthesis.resume();
+      setState((current) => (current === 'paused' ? 'speaking' : current));
+    }
+  }, []);
 
-// Create a shorthand for the speech synthesis API
-const speechSynth = window.speechSynthesis;
+  const replay = useCallback((fromIndex = 0): Promise<void> => {
+    const texts = [...spokenTextsRef.current];
+    cancel();
+    // Keep the skipped sentences so indices still line up with the answer
+    spokenTextsRef.current = texts.slice(0, fromIndex);
+    setTotal(spokenTextsRef.current.length);
+    return Promise.all(texts.slice(fromIndex).map((text) => enqueue(text))).then(() => undefined);
+  }, [cancel, enqueue]);
+
+  return {
+    speak,
+    enqueue,
+    record,
+    pause,
+    resume,
+    cancel,
+    reset,
+    replay,
+    state,
+    progress: { current: currentIndex, total, wordStart: word.start, wordLength: word.length },
+  };
+};
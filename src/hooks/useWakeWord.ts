@@ -0,0 +1,120 @@
+import { useEffect, useRef } from 'react';
+import {
+  getBrowserRecognition,
+  type RecognitionError,
+  type RecognitionErrorCode,
+  type SpeechRecognition,
+  type SpeechRecognitionErrorEvent,
+  type SpeechRecognitionEvent,
+} from '@/hooks/useSpeechRecognition';
+import { findWakePhrase } from '@/utils/wakeWord';
+
+interface WakeWordOptions {
+  enabled: boolean;
+  // Listen for the phrase only while this is true, i.e. while the assistant is otherwise idle
+  active: boolean;
+  phrase: string;
+  // Locale to recognize, e.g. 'fr-FR'
+  language: string;
+  // The phrase was heard; remainder is anything said after it in the same breath
+  onWake: (remainder: string) => void;
+  // Listening stopped for good, e.g. because microphone access was denied
+  onError?: (error: RecognitionError) => void;
+}
+
+// Wait before restarting a session the browser ended, so a failing recognizer does not spin
+const RESTART_DELAY_MS = 300;
+
+// Failures that will not go away by listening again
+const FATAL_ERRORS: RecognitionErrorCode[] = [
+  'not-allowed',
+  'service-not-allowed',
+  'audio-capture',
+  'language-not-supported',
+];
+
+// Listens continuously with the browser recognizer for the wake phrase. The session is
+// ended before onWake is called, so the caller is free to start its own recognizer; if
+// the caller does not become inactive, listening for the phrase resumes shortly after.
+export const useWakeWord = ({ enabled, active, phrase, language, onWake, onError }: WakeWordOptions): void => {
+  // Latest callbacks, so inline functions do not restart recognition on every render
+  const onWakeRef = useRef(onWake);
+  onWakeRef.current = onWake;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    const SpeechRecognition = getBrowserRecognition();
+    if (!enabled || !active || !phrase.trim() || !SpeechRecognition) return;
+
+    let recognition: SpeechRecognition | null = null;
+    let restartTimer: ReturnType<typeof setTimeout> | null = null;
+    let isStopped = false;
+    // What followed the wake phrase, once it has been heard
+    let remainder: string | null = null;
+
+    const listen = () => {
+      const session = new SpeechRecognition();
+      session.continuous = true;
+      session.interimResults = false;
+      session.lang = language;
+
+      session.onstart = () => console.log('Listening for the wake phrase');
+
+      session.onresult = (event: SpeechRecognitionEvent) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const heard = findWakePhrase(event.results[i][0].transcript, phrase);
+          if (heard !== null) {
+            remainder = heard;
+            session.abort();
+            return;
+          }
+        }
+      };
+
+      session.onerror = (event: SpeechRecognitionErrorEvent) => {
+        // 'no-speech' and 'aborted' are routine while waiting for the phrase
+        const code = event.error;
+        if (code !== 'aborted' && FATAL_ERRORS.includes(code)) {
+          console.error('Wake phrase listening stopped:', code);
+          isStopped = true;
+          onErrorRef.current?.({ code, message: event.message || code });
+        }
+      };
+
+      session.onend = () => {
+        if (remainder !== null) {
+          const heard = remainder;
+          remainder = null;
+          console.log('Wake phrase heard');
+          // A caller that starts listening or answering turns this effect off, which
+          // clears the restart below before it fires
+          onWakeRef.current(heard);
+        }
+        // Browsers end even continuous sessions after a while; keep listening
+        if (!isStopped) {
+          restartTimer = setTimeout(listen, RESTART_DELAY_MS);
+        }
+      };
+
+      recognition = session;
+      try {
+        session.start();
+      } catch (error) {
+        console.error('Could not listen for the wake phrase:', error);
+      }
+    };
+
+    listen();
+
+    return () => {
+      isStopped = true;
+      if (restartTimer) clearTimeout(restartTimer);
+      if (recognition) {
+        recognition.onend = () => undefined;
+        recognition.onerror = () => undefined;
+        recognition.abort();
+      }
+    };
+  }, [enabled, active, phrase, language]);
+};
@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, CalendarIcon, ExternalLink, RotateCcw, Search, Square, Trash2, Volume2, X } from 'lucide-react';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import MarkdownResponse from '@/components/MarkdownResponse';
+import { deleteHistoryEntry, listHistoryEntries, type HistoryEntry } from '@/utils/historyStore';
+import { parseMarkdown, toSpokenText } from '@/utils/responseFormatter';
+import { loadLanguage } from '@/utils/languages';
+import { loadVoiceSettings } from '@/utils/voiceSettings';
+
+const controlClassName = 'bg-transparent border-white/40 text-white hover:bg-white/20 hover:text-white';
+
+const formatDateRange = (range: DateRange | undefined): string => {
+  if (!range?.from) return 'Any date';
+  if (!range.to || range.to.getTime() === range.from.getTime()) return format(range.from, 'PP');
+  return `${format(range.from, 'PP')} – ${format(range.to, 'PP')}`;
+};
+
+const History: React.FC = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  // Read the saved preferences once, so replays sound like the live answers
+  const [language] = useState(loadLanguage);
+  const [voiceSettings] = useState(loadVoiceSettings);
+  const { speak, cancel: cancelSpeech } = useTextToSpeech({ language, settings: voiceSettings });
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(
+        await listHistoryEntries({
+          search,
+          from: dateRange?.from ? startOfDay(dateRange.from).getTime() : undefined,
+          to: dateRange?.from ? endOfDay(dateRange.to ?? dateRange.from).getTime() : undefined,
+        })
+      );
+    } catch (error) {
+      console.error('Could not load history:', error);
+      toast({
+        title: "History unavailable",
+        description: error instanceof Error ? error.message : 'Could not load past questions.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, dateRange, toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Stop any replay when leaving the page
+  useEffect(() => cancelSpeech, [cancelSpeech]);
+
+  const handleAskAgain = (entry: HistoryEntry) => {
+    navigate(`/?q=${encodeURIComponent(entry.query)}`);
+  };
+
+  const handleReplay = async (entry: HistoryEntry) => {
+    if (playingId === entry.id) {
+      cancelSpeech();
+      setPlayingId(null);
+      return;
+    }
+
+    setPlayingId(entry.id);
+    try {
+      await speak(toSpokenText(entry.summary));
+    } catch (error) {
+      console.error('Could not replay answer:', error);
+    }
+    // A replay of another entry may have taken over in the meantime
+    setPlayingId((current) => (current === entry.id ? null : current));
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (playingId === entry.id) {
+      cancelSpeech();
+      setPlayingId(null);
+    }
+    try {
+      await deleteHistoryEntry(entry.id);
+      setEntries((current) => current.filter((item) => item.id !== entry.id));
+    } catch (error) {
+      console.error('Could not delete history entry:', error);
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : 'Could not delete this question.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-4 text-white bg-agile-teal">
+      <div className="max-w-4xl w-full space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3 pt-4">
+          <Button asChild variant="outline" size="sm" className={controlClassName}>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-white">History</h1>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-300" />
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search questions and answers"
+              aria-label="Search history"
+              className="pl-9 bg-white/10 border-white/30 text-white placeholder:text-gray-300"
+            />
+          </div>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className={controlClassName}>
+                <CalendarIcon className="w-4 h-4" />
+                {formatDateRange(dateRange)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar mode="range" selected={dateRange} onSelect={setDateRange} disabled={{ after: new Date() }} />
+            </PopoverContent>
+          </Popover>
+          {dateRange?.from && (
+            <Button variant="outline" size="sm" onClick={() => setDateRange(undefined)} className={controlClassName}>
+              <X className="w-4 h-4" />
+              Clear dates
+            </Button>
+          )}
+        </div>
+
+        {/* Entries */}
+        {!isLoading && entries.length === 0 && (
+          <p className="text-center text-gray-200">
+            {search || dateRange?.from ? 'No questions match these filters.' : 'Questions you ask will appear here.'}
+          </p>
+        )}
+
+        {entries.map((entry) => (
+          <Card key={entry.id} className="p-6 bg-white/10 backdrop-blur border-white/20 space-y-3">
+            <div className="flex flex-wrap items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <h2 className="text-lg font-semibold text-white">{entry.query}</h2>
+                <p className="text-xs text-gray-400">
+                  {format(entry.createdAt, 'PPp')} · {entry.mode} · {entry.model} · {(entry.latencyMs / 1000).toFixed(1)}s
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleAskAgain(entry)} className={controlClassName}>
+                  <RotateCcw className="w-4 h-4" />
+                  Ask again
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleReplay(entry)} className={controlClassName}>
+                  {playingId === entry.id ? <Square className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                  {playingId === entry.id ? 'Stop' : 'Replay audio'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(entry)}
+                  aria-label="Delete"
+                  className={controlClassName}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <MarkdownResponse blocks={parseMarkdown(entry.summary)} />
+
+            {entry.sources.length > 0 && (
+              <ol className="space-y-1 text-sm list-decimal list-inside text-gray-200">
+                {entry.sources.map((source, index) => (
+                  <li key={`${source.url ?? source.title}-${index}`}>
+                    {source.url ? (
+                      <a
+                        href={source.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 underline hover:text-white"
+                      >
+                        {source.title}
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    ) : (
+                      source.title
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default History;
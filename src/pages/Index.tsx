@@ -1,79 +1,665 @@
-import React, { useState, useEffect } from 'react';
-import { Mic, MicOff, Volume2, Brain, Search } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Mic, MicOff, Volume2, VolumeX, Brain, Search, MessageSquarePlus, X, Send, History as HistoryIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ToastAction } from '@/components/ui/toast';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import VoiceVisualizer from '@/components/VoiceVisualizer';
 import StatusIndicator from '@/components/StatusIndicator';
 import ResponseDisplay from '@/components/ResponseDisplay';
-import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import VoiceSettingsSheet from '@/components/VoiceSettingsSheet';
+import VoiceCommandsDialog from '@/components/VoiceCommandsDialog';
+import {
+  useSpeechRecognition,
+  defaultRecognitionEngine,
+  isEngineSupported,
+  type RecognitionEngine,
+  type RecognitionError,
+  type RecognitionErrorCode,
+} from '@/hooks/useSpeechRecognition';
 import { useTextToSpeech } from '@/hooks/useTextToSpeech';
-import { searchAndSummarize } from '@/utils/searchAndSummarize';
+import { useSpeechVoices } from '@/hooks/useSpeechVoices';
+import { useBargeIn } from '@/hooks/useBargeIn';
+import { useMicrophoneAnalyser } from '@/hooks/useMicrophoneAnalyser';
+import { useWakeWord } from '@/hooks/useWakeWord';
+import {
+  streamSearchAndSummarize,
+  testApiConfiguration,
+  type SearchError,
+  type SearchErrorKind,
+  type SearchMode,
+  type SearchResult,
+} from '@/utils/searchAndSummarize';
+import { completeSpokenSentences, spokenSentences } from '@/utils/responseFormatter';
+import { addTurn, createConversationSession } from '@/utils/conversation';
+import { isAbortError } from '@/utils/abort';
+import { LANGUAGES, findLanguage, findLanguageByCode, languageCode, loadLanguage, saveLanguage } from '@/utils/languages';
+import { MAX_RATE, MIN_RATE, loadVoiceSettings, saveVoiceSettings, type VoiceSettings } from '@/utils/voiceSettings';
+import { loadPreference, savePreference } from '@/utils/preferences';
+import { addHistoryEntry, createHistoryEntry } from '@/utils/historyStore';
+import { parseVoiceCommand, type VoiceCommand } from '@/utils/voiceCommands';
+import { isSearchMode, loadSearchMode, saveSearchMode } from '@/utils/searchMode';
+import { DEFAULT_WAKE_PHRASE, loadWakePhrase, saveWakePhrase } from '@/utils/wakeWord';
+
+type ErrorRecovery = 'retry' | 'ask-again' | 'check-setup';
+
+// How much "slower" and "faster" change the speaking rate
+const RATE_STEP = 0.15;
+
+// How each search failure is presented: toast title, what AMIRA says, and the recovery offered
+const SEARCH_ERROR_PRESENTATION: Record<SearchErrorKind, { title: string; spoken: string; recovery: ErrorRecovery }> = {
+  'missing-key': {
+    title: 'API key missing',
+    spoken: "I can't search yet because no API key is configured.",
+    recovery: 'check-setup',
+  },
+  auth: {
+    title: 'API key rejected',
+    spoken: 'The search service rejected my API key.',
+    recovery: 'check-setup',
+  },
+  'rate-limited': {
+    title: 'Too many requests',
+    spoken: 'The search service is busy right now. Please try again in a moment.',
+    recovery: 'retry',
+  },
+  network: {
+    title: 'Connection problem',
+    spoken: "I couldn't reach the search service. Please check your internet connection.",
+    recovery: 'retry',
+  },
+  server: {
+    title: 'Service error',
+    spoken: 'The search service had a problem answering that.',
+    recovery: 'retry',
+  },
+  empty: {
+    title: 'No results',
+    spoken: "I couldn't find anything about that. Try asking another way.",
+    recovery: 'ask-again',
+  },
+  unknown: {
+    title: 'Error',
+    spoken: 'Sorry, I encountered an error while processing your request.',
+    recovery: 'retry',
+  },
+};
+
+const RECOVERY_LABELS: Record<ErrorRecovery, string> = {
+  retry: 'Retry',
+  'ask-again': 'Ask again',
+  'check-setup': 'Check setup',
+};
+
+// How each speech recognition failure is explained, and whether trying again can help
+const RECOGNITION_ERROR_PRESENTATION: Record<RecognitionErrorCode, { title: string; description: string; canRetry: boolean }> = {
+  'no-speech': {
+    title: "Didn't catch that",
+    description: 'No speech was detected. Tap the microphone and speak again.',
+    canRetry: true,
+  },
+  'audio-capture': {
+    title: 'No microphone',
+    description: 'No working microphone was found. Check that one is connected and not in use by another app.',
+    canRetry: true,
+  },
+  'not-allowed': {
+    title: 'Microphone blocked',
+    description: 'Microphone access was denied. Allow it from the lock icon in the address bar, then try again.',
+    canRetry: true,
+  },
+  'service-not-allowed': {
+    title: 'Speech service unavailable',
+    description: "The browser's speech service is disabled. Try the on-device (Whisper) engine instead.",
+    canRetry: false,
+  },
+  network: {
+    title: 'Connection problem',
+    description: "The browser's speech service could not be reached. Check your connection or use the on-device engine.",
+    canRetry: true,
+  },
+  'language-not-supported': {
+    title: 'Language not supported',
+    description: 'Speech recognition is not available for the selected language in this browser.',
+    canRetry: false,
+  },
+  'bad-grammar': {
+    title: 'Recognition error',
+    description: 'The speech recognizer could not process that request.',
+    canRetry: true,
+  },
+  transcription: {
+    title: 'Transcription failed',
+    description: 'The on-device model could not transcribe the recording.',
+    canRetry: true,
+  },
+};
 
 const Index: React.FC = () => {
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [query, setQuery] = useState('');
   const [response, setResponse] = useState('');
+  const [result, setResult] = useState<SearchResult | null>(null);
   const [status, setStatus] = useState('Ready to listen');
+  const [session, setSession] = useState(createConversationSession);
+  const [engine, setEngine] = useState<RecognitionEngine>(defaultRecognitionEngine);
+  const [isDictation, setIsDictation] = useState(false);
+  const [language, setLanguage] = useState(loadLanguage);
+  const [voiceSettings, setVoiceSettings] = useState(loadVoiceSettings);
+  const [isBargeInEnabled, setIsBargeInEnabled] = useState(() => loadPreference('barge-in', false));
+  const [isMuted, setIsMuted] = useState(() => loadPreference('muted', false));
+  // Read by an answer already in progress, which would otherwise keep the value it started with
+  const isMutedRef = useRef(isMuted);
+  isMutedRef.current = isMuted;
+  // Put recognized speech in the text box for editing instead of asking it straight away
+  const [isReviewingTranscript, setIsReviewingTranscript] = useState(() => loadPreference('review-transcript', false));
+  const [typedQuery, setTypedQuery] = useState('');
+  const [searchMode, setSearchMode] = useState(loadSearchMode);
+  // Wait for the wake phrase instead of a click; needs the browser recognizer to listen for it
+  const [isHandsFree, setIsHandsFree] = useState(() => loadPreference('hands-free', false) && isEngineSupported('browser'));
+  const [wakePhrase, setWakePhrase] = useState(loadWakePhrase);
+  const typedQueryRef = useRef<HTMLInputElement>(null);
 
   const { toast } = useToast();
-  const { startListening, stopListening, transcript, isSupported } = useSpeechRecognition();
-  const { speak } = useTextToSpeech();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    startListening,
+    stopListening,
+    transcript,
+    interimTranscript,
+    isSupported,
+    status: recognitionStatus,
+  } = useSpeechRecognition({
+    engine,
+    language,
+    continuous: isDictation,
+    onError: (error) => reportRecognitionError(error),
+  });
+  const {
+    speak,
+    enqueue,
+    record: recordSpeech,
+    pause: pauseSpeech,
+    resume: resumeSpeech,
+    cancel: cancelSpeech,
+    reset: resetSpeech,
+    replay: replaySpeech,
+    state: speechState,
+    progress: speechProgress,
+  } = useTextToSpeech({ language, settings: voiceSettings });
+  // Sources and voice previews are read by their own queue so the answer's replay and
+  // sentence progress are left alone
+  const {
+    speak: speakAside,
+    cancel: cancelAside,
+    state: asideSpeechState,
+  } = useTextToSpeech({ language, settings: voiceSettings });
+  const isSpeaking = speechState !== 'idle' || asideSpeechState !== 'idle';
+  const voices = useSpeechVoices();
+  const microphoneAnalyser = useMicrophoneAnalyser(isListening);
+
+  useBargeIn({
+    enabled: isBargeInEnabled && isSupported,
+    active: speechState === 'speaking' && !isListening,
+    onBargeIn: () => handleBargeIn(),
+  });
+
+  // Back to waiting for the wake phrase whenever nothing else is going on
+  useWakeWord({
+    enabled: isHandsFree,
+    active: !isListening && !isProcessing && !isSpeaking,
+    phrase: wakePhrase,
+    language,
+    onWake: (remainder) => handleWake(remainder),
+    onError: (error) => handleWakeWordError(error),
+  });
+
+  // Controller for the in-flight search, and an id so a cancelled or superseded query
+  // can tell that its late results must be discarded
+  const searchControllerRef = useRef<AbortController | null>(null);
+  const queryIdRef = useRef(0);
+  // Latest processQuery, for effects that ask a question without re-running on every render
+  const processQueryRef = useRef<(userQuery: string) => Promise<void>>();
+
+  useEffect(() => {
+    switch (recognitionStatus.state) {
+      case 'transcribing':
+        setStatus('Transcribing on device...');
+        break;
+      case 'error':
+        setIsListening(false);
+        setStatus(RECOGNITION_ERROR_PRESENTATION[recognitionStatus.error.code].title);
+        break;
+      case 'idle':
+        // The recognizer stopped without hearing a question; a transcript starts the search instead
+        if (!transcript) {
+          setIsListening(false);
+          setStatus('Ready to listen');
+        }
+        break;
+    }
+  }, [recognitionStatus, transcript]);
+
+  // "Ask again" from the history page arrives as ?q=, which is dropped once it is asked
+  useEffect(() => {
+    const askedQuery = searchParams.get('q');
+    if (askedQuery) {
+      setSearchParams({}, { replace: true });
+      setQuery(askedQuery);
+      processQueryRef.current(askedQuery);
+    }
+  }, [searchParams, setSearchParams]);
 
   useEffect(() => {
     if (transcript) {
-      setQuery(transcript);
       setIsListening(false);
-      processQuery(transcript);
+      handleUtterance(transcript);
     }
   }, [transcript]);
 
-  const processQuery = async (userQuery: string) => {
+  // Something the user said, from the recognizer or right after the wake phrase
+  const handleUtterance = (utterance: string) => {
+    // Commands for the assistant itself are handled here and never searched
+    const command = parseVoiceCommand(utterance);
+    if (command) {
+      handleVoiceCommand(command);
+      return;
+    }
+    if (isReviewingTranscript) {
+      setTypedQuery(utterance);
+      setStatus('Edit your question, then press Enter');
+      typedQueryRef.current?.focus();
+      return;
+    }
+    setQuery(utterance);
+    processQuery(utterance);
+  };
+
+  // mode overrides the selected search mode for this query only
+  const processQuery = async (userQuery: string, mode: SearchMode = searchMode) => {
     if (!userQuery.trim()) return;
 
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+    const queryId = ++queryIdRef.current;
+    const isCurrent = () => queryId === queryIdRef.current;
+
+    // Start a fresh speech queue so replay and progress cover this answer only
+    resetSpeech();
     setIsProcessing(true);
+    setResponse('');
+    setResult(null);
     setStatus('Searching and processing...');
 
     try {
       console.log('Processing query:', userQuery);
-      const result = await searchAndSummarize(userQuery);
 
-      const fullResponse = ` ${result}`;
-      setResponse(fullResponse);
-      setStatus('Speaking response...');
-      setIsSpeaking(true);
+      let displayed = '';
+      let finalResult: SearchResult | null = null;
+      let searchError: SearchError | null = null;
+      const spoken: Promise<void>[] = [];
+      let queuedCount = 0;
+
+      // Queue the spoken form of each sentence as soon as it is complete. Sentences are
+      // counted rather than cut off the text, because markdown only resolves as it arrives.
+      // Muted sentences are only recorded, so they can still be replayed after unmuting.
+      const speakSentences = (sentences: string[]) => {
+        const fresh = sentences.slice(queuedCount);
+        if (fresh.length === 0) return;
+        queuedCount = sentences.length;
+        if (isMutedRef.current) {
+          fresh.forEach(recordSpeech);
+          return;
+        }
+        if (spoken.length === 0) {
+          setStatus('Speaking response...');
+        }
+        fresh.forEach((sentence) => spoken.push(enqueue(sentence)));
+      };
 
-      await speak(fullResponse);
-      setIsSpeaking(false);
+      for await (const event of streamSearchAndSummarize(userQuery, {
+        session,
+        language,
+        mode,
+        signal: controller.signal,
+      })) {
+        if (!isCurrent()) return;
+        if (event.type === 'token') {
+          setIsStreaming(true);
+          displayed += event.text;
+          setResponse(displayed);
+          speakSentences(completeSpokenSentences(displayed));
+        } else if (event.type === 'error') {
+          searchError = event.error;
+        } else {
+          displayed = event.result.summary;
+          finalResult = event.result;
+          setResponse(displayed);
+          setResult(event.result);
+          setIsStreaming(false);
+
+          // Nothing was streamed when the content was too thin to summarize, in which case
+          // this speaks the whole summary
+          speakSentences(spokenSentences(displayed));
+        }
+      }
+
+      // The search is over; the spoken answer is tracked by the speech state from here,
+      // so the mic and the next question are available while it is read
+      finishSearch();
+
+      if (searchError) {
+        await reportSearchError(userQuery, searchError);
+        return;
+      }
+
+      if (finalResult) {
+        const { summary } = finalResult;
+        setSession((current) => addTurn(current, { query: userQuery, summary }));
+        const answered = finalResult;
+        // Built inside the chain so a failure to save never reaches the answer being spoken
+        Promise.resolve()
+          .then(() => addHistoryEntry(createHistoryEntry(userQuery, answered)))
+          .catch((error) => {
+            console.error('Could not save to history:', error);
+          });
+      }
+
+      await Promise.all(spoken);
+      if (!isCurrent()) return;
       setStatus('Ready to listen');
     } catch (error) {
+      // Cancelled queries were already reset by handleCancel
+      if (!isCurrent() || isAbortError(error)) return;
       console.error('Error processing query:', error);
-      const errorResponse = "Sorry, I encountered an error while processing your request.";
-      setResponse(errorResponse);
+      await reportSearchError(userQuery, {
+        kind: 'unknown',
+        message: error instanceof Error ? error.message : 'Failed to process your query. Please try again.',
+      });
+    } finally {
+      if (isCurrent()) finishSearch();
+    }
+  };
+
+  const finishSearch = () => {
+    setIsProcessing(false);
+    setIsStreaming(false);
+    searchControllerRef.current = null;
+  };
+
+  processQueryRef.current = processQuery;
+
+  // Toast the failure with its recovery action, then say a short explanation
+  const reportSearchError = async (userQuery: string, searchError: SearchError) => {
+    const presentation = SEARCH_ERROR_PRESENTATION[searchError.kind];
+
+    toast({
+      title: presentation.title,
+      description: searchError.message,
+      variant: "destructive",
+      action: (
+        <ToastAction
+          altText={RECOVERY_LABELS[presentation.recovery]}
+          onClick={() => handleRecovery(presentation.recovery, userQuery)}
+        >
+          {RECOVERY_LABELS[presentation.recovery]}
+        </ToastAction>
+      ),
+    });
+
+    if (!isMutedRef.current) {
       setStatus('Speaking error message...');
-      setIsSpeaking(true);
+      try {
+        await speak(presentation.spoken);
+      } catch (error) {
+        console.error('Could not speak error message:', error);
+      }
+    }
+    setStatus(presentation.title);
+  };
 
-      await speak(errorResponse);
-      setIsSpeaking(false);
-      setStatus('Ready to listen');
+  const reportRecognitionError = (recognitionError: RecognitionError) => {
+    const presentation = RECOGNITION_ERROR_PRESENTATION[recognitionError.code];
 
-      toast({
-        title: "Error",
-        description: "Failed to process your query. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsProcessing(false);
+    toast({
+      title: presentation.title,
+      description: presentation.description,
+      variant: "destructive",
+      action: presentation.canRetry ? (
+        // The mic handler from this render still sees the failed session as listening
+        <ToastAction altText="Try again" onClick={() => isSupported && beginListening()}>
+          Try again
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  const handleRecovery = async (recovery: ErrorRecovery, userQuery: string) => {
+    switch (recovery) {
+      case 'retry':
+        processQuery(userQuery);
+        break;
+      case 'ask-again':
+        handleMicClick();
+        break;
+      case 'check-setup': {
+        const report = await testApiConfiguration();
+        toast({
+          title: "API configuration",
+          description: <span className="whitespace-pre-line">{report}</span>,
+        });
+        break;
+      }
+    }
+  };
+
+  // Abort the running search and silence the answer
+  const stopAnswering = () => {
+    // Invalidate the running query first so nothing it resolves with is shown
+    queryIdRef.current += 1;
+    searchControllerRef.current?.abort();
+    searchControllerRef.current = null;
+    cancelSpeech();
+    cancelAside();
+
+    setIsProcessing(false);
+    setIsStreaming(false);
+  };
+
+  const handleCancel = () => {
+    stopAnswering();
+    setStatus('Search cancelled');
+  };
+
+  // The user talked over the answer: stop it and take their next question straight away
+  const handleBargeIn = () => {
+    beginListening();
+  };
+
+  const handleTypedQuerySubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const typed = typedQuery.trim();
+    if (!typed) return;
+
+    if (isListening) {
+      stopListening();
+      setIsListening(false);
+    }
+    cancelSpeech();
+    cancelAside();
+    setTypedQuery('');
+    setQuery(typed);
+    processQuery(typed);
+  };
+
+  const handleSearchModeChange = (value: string) => {
+    // ToggleGroup reports an empty value when the active item is clicked again
+    if (!isSearchMode(value)) return;
+    setSearchMode(value);
+    saveSearchMode(value);
+  };
+
+  // Ask the last question again in detailed mode; the session already holds the
+  // previous answer, so it is sent along as context
+  const handleTellMeMore = () => {
+    // Only a search still running blocks it; an answer being read out is interrupted
+    if (!query.trim() || isProcessing) return;
+    cancelSpeech();
+    cancelAside();
+    processQuery(query, 'detailed');
+  };
+
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    console.log('Voice command:', command.type);
+    setStatus('Ready to listen');
+
+    switch (command.type) {
+      case 'stop':
+        stopAnswering();
+        break;
+      case 'repeat':
+        if (response) {
+          handleReplay();
+        } else {
+          toast({ title: "Nothing to repeat", description: "Ask a question first." });
+        }
+        break;
+      case 'slower':
+      case 'faster': {
+        const step = command.type === 'slower' ? -RATE_STEP : RATE_STEP;
+        const rate = Math.round(Math.min(MAX_RATE, Math.max(MIN_RATE, voiceSettings.rate + step)) * 100) / 100;
+        handleVoiceSettingsChange({ ...voiceSettings, rate });
+        toast({
+          title: command.type === 'slower' ? "Speaking slower" : "Speaking faster",
+          description: `Speed set to ${rate.toFixed(2)}.`,
+        });
+        break;
+      }
+      case 'more-detail':
+        if (query.trim()) {
+          handleTellMeMore();
+        } else {
+          toast({ title: "Nothing to expand on", description: "Ask a question first." });
+        }
+        break;
+      case 'new-topic':
+        stopAnswering();
+        handleNewConversation();
+        break;
+      case 'switch-language':
+        if (!command.language) {
+          toast({
+            title: "Language not supported",
+            description: `I can't switch to ${command.requested} yet.`,
+            variant: "destructive",
+          });
+        } else if (languageCode(command.language.locale) !== languageCode(language)) {
+          // Keep the current accent when asked for the language already in use
+          handleLanguageChange(command.language.locale);
+          toast({ title: "Language changed", description: `Now listening and answering in ${command.language.label}.` });
+        }
+        break;
+      case 'read-sources':
+        if (result && result.sources.length > 0) {
+          cancelSpeech();
+          handleReadSources(result);
+        } else {
+          toast({ title: "No sources", description: "This answer did not come with sources." });
+        }
+        break;
+    }
+  };
+
+  const handleReadSources = async (sourcesResult: SearchResult) => {
+    setStatus('Reading sources...');
+    try {
+      await speakAside(sourcesResult.sources.map((source, index) => `Source ${index + 1}: ${source.title}.`).join('\n'));
+    } catch (error) {
+      console.error('Could not read sources:', error);
+    }
+    setStatus('Ready to listen');
+  };
+
+  // The wake phrase was heard: take a question said in the same breath, or listen for the next one
+  const handleWake = (remainder: string) => {
+    if (remainder) {
+      handleUtterance(remainder);
+    } else {
+      beginListening();
+    }
+  };
+
+  // Hands-free cannot work without the microphone, so turn it off and say why
+  const handleWakeWordError = (error: RecognitionError) => {
+    const presentation = RECOGNITION_ERROR_PRESENTATION[error.code];
+    handleHandsFreeChange(false);
+    toast({
+      title: `Hands-free off: ${presentation.title}`,
+      description: presentation.description,
+      variant: "destructive",
+    });
+  };
+
+  const handleHandsFreeChange = (enabled: boolean) => {
+    setIsHandsFree(enabled);
+    savePreference('hands-free', enabled);
+  };
+
+  const handleWakePhraseChange = (phrase: string) => {
+    setWakePhrase(phrase);
+    saveWakePhrase(phrase);
+  };
+
+  const handleMuteChange = (muted: boolean) => {
+    setIsMuted(muted);
+    isMutedRef.current = muted;
+    savePreference('muted', muted);
+    if (muted) {
+      cancelSpeech();
+      cancelAside();
+    }
+  };
+
+  const handleReviewTranscriptChange = (enabled: boolean) => {
+    setIsReviewingTranscript(enabled);
+    savePreference('review-transcript', enabled);
+  };
+
+  const handleBargeInChange = (enabled: boolean) => {
+    setIsBargeInEnabled(enabled);
+    savePreference('barge-in', enabled);
+  };
+
+  const handleStopSpeaking = () => {
+    cancelSpeech();
+    cancelAside();
+    if (!isProcessing) setStatus('Ready to listen');
+  };
+
+  const handleReplay = async (fromIndex?: number) => {
+    setStatus('Speaking response...');
+    try {
+      await replaySpeech(fromIndex);
+    } catch (error) {
+      console.error('Could not replay response:', error);
     }
+    setStatus('Ready to listen');
   };
 
   const handleMicClick = () => {
     if (!isSupported) {
       toast({
         title: "Not Supported",
-        description: "Speech recognition is not supported in your browser.",
+        description: "Speech recognition is not supported in your browser. You can type your question instead.",
         variant: "destructive",
       });
       return;
@@ -84,15 +670,69 @@ const Index: React.FC = () => {
       setIsListening(false);
       setStatus('Ready to listen');
     } else {
-      setQuery('');
-      setResponse('');
-      startListening();
-      setIsListening(true);
-      setStatus('Listening... Speak now');
+      beginListening();
+    }
+  };
+
+  const beginListening = () => {
+    // Talking over the answer interrupts it, and the answer must not reset the status
+    // once its speech ends
+    stopAnswering();
+    // The previous exchange stays until a new question is asked, so "repeat that" and
+    // "read the sources" still have something to work with
+    startListening();
+    setIsListening(true);
+    setStatus(isDictation ? 'Dictating... Pause or tap to finish' : 'Listening... Speak now');
+  };
+
+  const handleEngineChange = (value: string) => {
+    // ToggleGroup reports an empty value when the active item is clicked again
+    if (!value) return;
+    setEngine(value as RecognitionEngine);
+  };
+
+  const handleLanguageChange = (locale: string) => {
+    setLanguage(locale);
+    saveLanguage(locale);
+
+    // A voice chosen for another language would mispronounce everything, so go back to automatic
+    const chosenVoice = voices.find((voice) => voice.voiceURI === voiceSettings.voiceURI);
+    if (chosenVoice && languageCode(chosenVoice.lang) !== languageCode(locale)) {
+      handleVoiceSettingsChange({ ...voiceSettings, voiceURI: null });
     }
   };
 
+  const handleVoiceSettingsChange = (settings: VoiceSettings) => {
+    setVoiceSettings(settings);
+    saveVoiceSettings(settings);
+  };
+
+  // Read a sample sentence in the chosen voice's language, or the assistant's language for automatic
+  const handlePreviewVoice = async () => {
+    const chosenVoice = voices.find((voice) => voice.voiceURI === voiceSettings.voiceURI);
+    const previewLanguage = (chosenVoice && findLanguageByCode(chosenVoice.lang)) || findLanguage(language);
+    cancelSpeech();
+    try {
+      await speakAside(previewLanguage.sample);
+    } catch (error) {
+      console.error('Could not preview voice:', error);
+    }
+  };
+
+  const handleNewConversation = () => {
+    setSession(createConversationSession());
+    setQuery('');
+    setResponse('');
+    setResult(null);
+    setStatus('Ready to listen');
+    toast({
+      title: "New conversation",
+      description: "Previous questions will no longer be used as context.",
+    });
+  };
+
   const isActive = isListening || isProcessing || isSpeaking;
+  const isHearing = isListening && Boolean(interimTranscript);
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 text-white bg-agile-teal">
@@ -106,14 +746,14 @@ const Index: React.FC = () => {
 
         {/* Voice Visualizer */}
         <div className="flex justify-center">
-          <VoiceVisualizer isListening={isListening} isSpeaking={isSpeaking} />
+          <VoiceVisualizer isListening={isListening} isSpeaking={isSpeaking} analyser={microphoneAnalyser} />
         </div>
 
         {/* Main Control */}
         <div className="flex justify-center">
           <Button
             onClick={handleMicClick}
-            disabled={isProcessing || isSpeaking}
+            disabled={isProcessing}
             size="lg"
             className={`
               w-24 h-24 rounded-full transition-all duration-300 
@@ -133,14 +773,188 @@ const Index: React.FC = () => {
           </Button>
         </div>
 
+        {isHandsFree && !isActive && (
+          <p className="text-center text-sm text-gray-200">Say “{wakePhrase}” to ask a question</p>
+        )}
+
+        {/* Typed Query */}
+        <form onSubmit={handleTypedQuerySubmit} className="flex gap-2">
+          <Input
+            ref={typedQueryRef}
+            value={typedQuery}
+            onChange={(event) => setTypedQuery(event.target.value)}
+            placeholder="Or type your question"
+            aria-label="Question"
+            className="bg-white/10 border-white/30 text-white placeholder:text-gray-300"
+          />
+          <Button
+            type="submit"
+            disabled={!typedQuery.trim()}
+            className="bg-white text-agile-teal hover:bg-gray-100"
+          >
+            <Send className="w-4 h-4" />
+            Ask
+          </Button>
+        </form>
+
+        {/* Recognition Engine and Language */}
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-200">
+          <Select value={language} onValueChange={handleLanguageChange} disabled={isActive}>
+            <SelectTrigger aria-label="Language" className="w-48 bg-transparent border-white/40 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGES.map((option) => (
+                <SelectItem key={option.locale} value={option.locale}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span>Speech recognition:</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={engine}
+            onValueChange={handleEngineChange}
+            disabled={isActive}
+          >
+            <ToggleGroupItem
+              value="browser"
+              disabled={!isEngineSupported('browser')}
+              className="text-white data-[state=on]:bg-white/20 data-[state=on]:text-white hover:bg-white/10 hover:text-white"
+            >
+              Browser
+            </ToggleGroupItem>
+            <ToggleGroupItem
+              value="whisper"
+              disabled={!isEngineSupported('whisper')}
+              className="text-white data-[state=on]:bg-white/20 data-[state=on]:text-white hover:bg-white/10 hover:text-white"
+            >
+              On-device (Whisper)
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <span>Answers:</span>
+          <ToggleGroup type="single" size="sm" value={searchMode} onValueChange={handleSearchModeChange}>
+            <ToggleGroupItem
+              value="brief"
+              title="A short summary"
+              className="text-white data-[state=on]:bg-white/20 data-[state=on]:text-white hover:bg-white/10 hover:text-white"
+            >
+              Brief
+            </ToggleGroupItem>
+            <ToggleGroupItem
+              value="detailed"
+              title="News first, with a longer summary"
+              className="text-white data-[state=on]:bg-white/20 data-[state=on]:text-white hover:bg-white/10 hover:text-white"
+            >
+              Detailed
+            </ToggleGroupItem>
+            <ToggleGroupItem
+              value="quick"
+              title="The search answer as-is, without summarizing"
+              className="text-white data-[state=on]:bg-white/20 data-[state=on]:text-white hover:bg-white/10 hover:text-white"
+            >
+              Raw
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex items-center gap-2">
+            <Switch id="dictation" checked={isDictation} onCheckedChange={setIsDictation} disabled={isActive} />
+            <Label htmlFor="dictation">Dictation</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="review-transcript" checked={isReviewingTranscript} onCheckedChange={handleReviewTranscriptChange} />
+            <Label htmlFor="review-transcript">Edit before asking</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="muted" checked={isMuted} onCheckedChange={handleMuteChange} />
+            <Label htmlFor="muted" className="inline-flex items-center gap-1">
+              {isMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+              Mute responses
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="barge-in" checked={isBargeInEnabled} onCheckedChange={handleBargeInChange} />
+            <Label htmlFor="barge-in" title="Stop the answer and listen as soon as you start talking">
+              Barge-in
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="hands-free"
+              checked={isHandsFree}
+              onCheckedChange={handleHandsFreeChange}
+              disabled={!isEngineSupported('browser')}
+            />
+            <Label
+              htmlFor="hands-free"
+              title={
+                isEngineSupported('browser')
+                  ? 'Listen for the wake phrase instead of waiting for a click'
+                  : 'Needs the browser speech recognizer, which this browser lacks'
+              }
+            >
+              Hands-free
+            </Label>
+          </div>
+          {isHandsFree && (
+            <Input
+              value={wakePhrase}
+              onChange={(event) => handleWakePhraseChange(event.target.value)}
+              onBlur={() => !wakePhrase.trim() && handleWakePhraseChange(DEFAULT_WAKE_PHRASE)}
+              aria-label="Wake phrase"
+              className="w-36 h-8 bg-white/10 border-white/30 text-white"
+            />
+          )}
+          <VoiceCommandsDialog />
+          <VoiceSettingsSheet
+            settings={voiceSettings}
+            voices={voices}
+            onChange={handleVoiceSettingsChange}
+            onPreview={handlePreviewVoice}
+            disabled={isActive}
+          />
+          <Button
+            asChild
+            variant="outline"
+            size="sm"
+            className="bg-transparent border-white/40 text-white hover:bg-white/20 hover:text-white"
+          >
+            <Link to="/history">
+              <HistoryIcon className="w-4 h-4" />
+              History
+            </Link>
+          </Button>
+        </div>
+
+        {/* Conversation Controls */}
+        {session.turns.length > 0 && (
+          <div className="flex items-center justify-center gap-3 text-sm text-gray-200">
+            <span>
+              {session.turns.length} {session.turns.length === 1 ? 'question' : 'questions'} in this conversation
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleNewConversation}
+              disabled={isActive}
+              className="bg-transparent border-white/40 text-white hover:bg-white/20 hover:text-white"
+            >
+              <MessageSquarePlus className="w-4 h-4" />
+              New conversation
+            </Button>
+          </div>
+        )}
+
         {/* Query Display */}
-        {query && (
+        {(query || isHearing) && (
           <Card className="p-6 bg-white/20 backdrop-blur border-white/30">
             <div className="flex items-center gap-3 mb-3">
               <Search className="w-5 h-5 text-white" />
               <h3 className="text-lg font-semibold text-white">Your Query</h3>
             </div>
-            <p className="text-gray-100">{query}</p>
+            {/* While listening, show what has been heard so far */}
+            <p className={isHearing ? 'text-gray-300 italic' : 'text-gray-100'}>{isHearing ? interimTranscript : query}</p>
           </Card>
         )}
 
@@ -149,13 +963,33 @@ const Index: React.FC = () => {
           <Card className="p-6 bg-white/20 backdrop-blur border-white/30">
             <div className="flex items-center gap-3">
               <Brain className="w-5 h-5 text-white animate-pulse" />
-              <span className="text-white">Processing with AI...</span>
+              <span className="text-white">{isStreaming ? 'Answering...' : 'Processing with AI...'}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCancel}
+                className="ml-auto bg-transparent border-white/40 text-white hover:bg-white/20 hover:text-white"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
             </div>
           </Card>
         )}
 
         {/* Response Display */}
-        <ResponseDisplay response={response} isSpeaking={isSpeaking} />
+        <ResponseDisplay
+          response={response}
+          result={result}
+          speechState={speechState}
+          speechProgress={speechProgress}
+          isStreaming={isStreaming}
+          onPause={pauseSpeech}
+          onResume={resumeSpeech}
+          onStop={handleStopSpeaking}
+          onReplay={handleReplay}
+          onTellMeMore={handleTellMeMore}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,28 @@
+// Helpers for threading AbortSignals through the search pipeline
+
+// fetch and our own checks reject with a DOMException named "AbortError" when cancelled
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new DOMException('The search was cancelled.', 'AbortError');
+  }
+};
+
+// Resolve after the delay, or reject with an AbortError as soon as the signal fires
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The search was cancelled.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,51 @@
+import type { ChatMessage } from './llmProvider';
+
+// Limits on how much of the conversation is kept and sent back to the model
+const MAX_STORED_TURNS = 20;
+const DEFAULT_HISTORY_TURNS = 4;
+const DEFAULT_HISTORY_CHARS = 2000;
+
+export interface ConversationTurn {
+  query: string;
+  summary: string;
+}
+
+export interface ConversationSession {
+  id: string;
+  startedAt: number;
+  turns: ConversationTurn[];
+}
+
+export const createConversationSession = (): ConversationSession => ({
+  id: typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}`,
+  startedAt: Date.now(),
+  turns: [],
+});
+
+// Returns a new session with the turn appended, dropping the oldest turns past the cap
+export const addTurn = (session: ConversationSession, turn: ConversationTurn): ConversationSession => ({
+  ...session,
+  turns: [...session.turns, turn].slice(-MAX_STORED_TURNS),
+});
+
+// Most recent turns as alternating user/assistant messages, within a character budget
+export const toMessageHistory = (
+  session: ConversationSession | undefined,
+  maxTurns: number = DEFAULT_HISTORY_TURNS,
+  maxChars: number = DEFAULT_HISTORY_CHARS
+): ChatMessage[] => {
+  if (!session) return [];
+
+  const messages: ChatMessage[] = [];
+  let remaining = maxChars;
+
+  // Walk backwards so the newest turns win when the budget runs out
+  for (const turn of session.turns.slice(-maxTurns).reverse()) {
+    const size = turn.query.length + turn.summary.length;
+    if (size > remaining) break;
+    remaining -= size;
+    messages.unshift({ role: 'user', content: turn.query }, { role: 'assistant', content: turn.summary });
+  }
+
+  return messages;
+};
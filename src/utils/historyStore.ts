@@ -0,0 +1,122 @@
+import type { SearchMode, SearchResult, Source } from './searchAndSummarize';
+
+// Past questions and answers, kept in IndexedDB so they survive reloads and new questions
+
+export interface HistoryEntry {
+  id: string;
+  query: string;
+  summary: string;
+  sources: Source[];
+  mode: SearchMode;
+  provider: string;
+  model: string;
+  // Milliseconds since the epoch
+  createdAt: number;
+  // Time from asking to having the full answer
+  latencyMs: number;
+}
+
+export interface HistoryFilter {
+  // Free text matched against the query and the summary
+  search?: string;
+  // Inclusive createdAt bounds
+  from?: number;
+  to?: number;
+}
+
+export class HistoryStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryStoreError';
+  }
+}
+
+const DB_NAME = 'agile-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const CREATED_AT_INDEX = 'createdAt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new HistoryStoreError('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(CREATED_AT_INDEX, 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new HistoryStoreError(request.error?.message || 'Could not open history'));
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new HistoryStoreError(request.error?.message || 'History request failed'));
+  });
+};
+
+export const createHistoryEntry = (query: string, result: SearchResult): HistoryEntry => ({
+  // randomUUID only exists in secure contexts, e.g. not on the dev server over plain http
+  id: typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}`,
+  query: query.trim(),
+  summary: result.summary,
+  sources: result.sources,
+  mode: result.mode,
+  provider: result.provider,
+  model: result.model,
+  createdAt: Date.now(),
+  latencyMs: result.timings.totalMs,
+});
+
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(entry));
+};
+
+// Entries matching the filter, newest first
+export const listHistoryEntries = async (filter: HistoryFilter = {}): Promise<HistoryEntry[]> => {
+  const range =
+    filter.from !== undefined && filter.to !== undefined
+      ? IDBKeyRange.bound(filter.from, filter.to)
+      : filter.from !== undefined
+        ? IDBKeyRange.lowerBound(filter.from)
+        : filter.to !== undefined
+          ? IDBKeyRange.upperBound(filter.to)
+          : undefined;
+
+  const entries = await runRequest<HistoryEntry[]>('readonly', (store) =>
+    store.index(CREATED_AT_INDEX).getAll(range)
+  );
+
+  const search = filter.search?.trim().toLowerCase();
+  return entries
+    .filter((entry) => !search || `${entry.query}\n${entry.summary}`.toLowerCase().includes(search))
+    .reverse();
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await runRequest('readwrite', (store) => store.clear());
+};
@@ -0,0 +1,86 @@
+import { loadPreference, savePreference } from './preferences';
+
+// Languages the assistant can listen and answer in. The locale drives speech recognition
+// and the choice of voice; the name is used to ask the model to answer in that language.
+
+export interface AssistantLanguage {
+  // BCP 47 locale, as used by SpeechRecognition.lang and SpeechSynthesisVoice.lang
+  locale: string;
+  label: string;
+  // English name of the language, for prompts
+  name: string;
+  // Spoken when previewing a voice
+  sample: string;
+}
+
+export const LANGUAGES: AssistantLanguage[] = [
+  {
+    locale: 'en-US',
+    label: 'English (US)',
+    name: 'English',
+    sample: 'Hello! This is how I will sound when I read your answers.',
+  },
+  {
+    locale: 'en-GB',
+    label: 'English (UK)',
+    name: 'English',
+    sample: 'Hello! This is how I will sound when I read your answers.',
+  },
+  {
+    locale: 'sw-KE',
+    label: 'Kiswahili (Kenya)',
+    name: 'Swahili',
+    sample: 'Habari! Hivi ndivyo nitakavyosikika nikisoma majibu yako.',
+  },
+  {
+    locale: 'sw-TZ',
+    label: 'Kiswahili (Tanzania)',
+    name: 'Swahili',
+    sample: 'Habari! Hivi ndivyo nitakavyosikika nikisoma majibu yako.',
+  },
+  {
+    locale: 'fr-FR',
+    label: 'Français (France)',
+    name: 'French',
+    sample: 'Bonjour ! Voici comment je vais lire vos réponses.',
+  },
+  {
+    locale: 'fr-CA',
+    label: 'Français (Canada)',
+    name: 'French',
+    sample: 'Bonjour ! Voici comment je vais lire vos réponses.',
+  },
+  {
+    locale: 'es-ES',
+    label: 'Español (España)',
+    name: 'Spanish',
+    sample: '¡Hola! Así es como voy a leer tus respuestas.',
+  },
+  {
+    locale: 'es-MX',
+    label: 'Español (México)',
+    name: 'Spanish',
+    sample: '¡Hola! Así es como voy a leer tus respuestas.',
+  },
+];
+
+export const DEFAULT_LOCALE = 'en-US';
+
+const LANGUAGE_PREFERENCE_KEY = 'language';
+
+export const findLanguage = (locale: string): AssistantLanguage =>
+  LANGUAGES.find((language) => language.locale === locale) ?? LANGUAGES[0];
+
+// The first supported language with the same primary subtag, e.g. Kiswahili for a 'sw-TZ' voice
+export const findLanguageByCode = (locale: string): AssistantLanguage | undefined =>
+  LANGUAGES.find((language) => languageCode(language.locale) === languageCode(locale));
+
+// The primary language subtag, e.g. 'sw' for 'sw-KE'
+export const languageCode = (locale: string): string => locale.split(/[-_]/)[0].toLowerCase();
+
+export const loadLanguage = (): string => {
+  const locale = loadPreference(LANGUAGE_PREFERENCE_KEY, DEFAULT_LOCALE);
+  return LANGUAGES.some((language) => language.locale === locale) ? locale : DEFAULT_LOCALE;
+};
+
+export const saveLanguage = (locale: string): void => savePreference(LANGUAGE_PREFERENCE_KEY, locale);
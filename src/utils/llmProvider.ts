@@ -0,0 +1,450 @@
+import { abortableDelay, isAbortError, throwIfAborted } from './abort';
+
+// Provider layer for chat completions. Every LLM call in the search pipeline goes
+// through an LLMProvider so the backend (OpenRouter, llama.cpp, Ollama, ...) can be
+// swapped through configuration without touching the prompts.
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Cancels the HTTP request; the call then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+// Models used for each step of the pipeline
+export interface ProviderModels {
+  search: string;
+  news: string;
+  summary: string;
+}
+
+export type LLMErrorKind =
+  | 'missing-key'
+  | 'bad-request'
+  | 'auth'
+  | 'rate-limited'
+  | 'server'
+  | 'network'
+  | 'empty';
+
+export class LLMProviderError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+  // Delay requested by the server's Retry-After header
+  retryAfterMs?: number;
+  // Models tried before giving up, when a fallback chain was used
+  modelsTried?: string[];
+
+  constructor(kind: LLMErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Text produced by a completion, and the model that actually produced it
+export interface ChatCompletion {
+  content: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  models: ProviderModels;
+  complete: (request: ChatCompletionRequest) => Promise<ChatCompletion>;
+  // Yields content deltas as the server streams them (SSE)
+  stream: (request: ChatCompletionRequest) => AsyncGenerator<ChatCompletion>;
+}
+
+// Interface for OpenAI-compatible chat completion responses
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message: { content: string };
+  }>;
+  error?: { message: string; code?: number };
+}
+
+// Interface for a single streamed chunk (the JSON after "data: ")
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string };
+  }>;
+  error?: { message: string; code?: number };
+}
+
+interface OpenAICompatibleOptions {
+  name: string;
+  url: string;
+  apiKey?: string;
+  requiresKey?: boolean;
+  models: ProviderModels;
+}
+
+// Map an HTTP status to the error kind surfaced to callers
+const errorKindForStatus = (status: number): LLMErrorKind => {
+  switch (status) {
+    case 400:
+      return 'bad-request';
+    case 401:
+    case 403:
+      return 'auth';
+    case 429:
+      return 'rate-limited';
+    default:
+      return 'server';
+  }
+};
+
+// Parse a Retry-After header given either in seconds or as an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Any endpoint speaking the OpenAI /v1/chat/completions protocol
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): LLMProvider => {
+  const { name, url, apiKey, requiresKey = false, models } = options;
+
+  // Send the request and turn transport and HTTP failures into LLMProviderErrors
+  const post = async (request: ChatCompletionRequest, stream: boolean): Promise<Response> => {
+    if (requiresKey && !apiKey) {
+      throw new LLMProviderError('missing-key', `${name} API key is missing. Please configure it in environment variables.`);
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    throwIfAborted(request.signal);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        signal: request.signal,
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream,
+        }),
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new LLMProviderError('network', `Could not reach ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    console.log(`${name} API Response Status:`, response.status);
+
+    if (!response.ok) {
+      const data: ChatCompletionResponse = await response.json().catch(() => ({}));
+      console.error(`${name} API Error Response:`, data);
+      const status = data.error?.code || response.status;
+      const message = data.error?.message || `HTTP ${response.status}: ${response.statusText}`;
+      throw new LLMProviderError(errorKindForStatus(status), message, status, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    return response;
+  };
+
+  const complete = async (request: ChatCompletionRequest): Promise<ChatCompletion> => {
+    const response = await post(request, false);
+
+    let data: ChatCompletionResponse;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new LLMProviderError('empty', `${name} returned an unreadable response.`, response.status);
+    }
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new LLMProviderError('empty', `${name} returned an empty response.`, response.status);
+    }
+
+    return { content, model: request.model };
+  };
+
+  const stream = async function* (request: ChatCompletionRequest): AsyncGenerator<ChatCompletion> {
+    const response = await post(request, true);
+    if (!response.body) {
+      throw new LLMProviderError('empty', `${name} returned no response body.`, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let receivedContent = false;
+    let finished = false;
+
+    try {
+      while (!finished) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          // Skip blank separators and SSE comments such as OpenRouter's keep-alives
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') {
+            finished = true;
+            break;
+          }
+
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            continue;
+          }
+
+          if (chunk.error) {
+            const status = chunk.error.code || response.status;
+            throw new LLMProviderError(errorKindForStatus(status), chunk.error.message, status);
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            receivedContent = true;
+            yield { content: delta, model: request.model };
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof LLMProviderError || isAbortError(error)) throw error;
+      throw new LLMProviderError('network', `${name} stream interrupted: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (!receivedContent) {
+      throw new LLMProviderError('empty', `${name} returned an empty response.`, response.status);
+    }
+  };
+
+  return { name, models, complete, stream };
+};
+
+export const createOpenRouterProvider = (apiKey: string): LLMProvider =>
+  createOpenAICompatibleProvider({
+    name: 'OpenRouter',
+    url: 'https://openrouter.ai/api/v1/chat/completions',
+    apiKey,
+    requiresKey: true,
+    models: {
+      search: 'deepseek/deepseek-chat:free',
+      news: 'deepseek/deepseek-r1',
+      summary: 'deepseek/deepseek-r1',
+    },
+  });
+
+// Local servers use a single model for every step
+const localModels = (model: string): ProviderModels => ({ search: model, news: model, summary: model });
+
+export const createLlamaCppProvider = (baseUrl = 'http://localhost:8080', model = 'default'): LLMProvider =>
+  createOpenAICompatibleProvider({
+    name: 'llama.cpp',
+    url: `${baseUrl.replace(/\/$/, '')}/v1/chat/completions`,
+    models: localModels(model),
+  });
+
+export const createOllamaProvider = (baseUrl = 'http://localhost:11434', model = 'llama3.2'): LLMProvider =>
+  createOpenAICompatibleProvider({
+    name: 'Ollama',
+    url: `${baseUrl.replace(/\/$/, '')}/v1/chat/completions`,
+    models: localModels(model),
+  });
+
+export interface RetryPolicy {
+  // Retries per model after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest wait between attempts; a longer Retry-After moves on to the next model instead
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+interface RetryAndFallbackOptions {
+  retry?: RetryPolicy;
+  // Models tried in order after the requested one fails
+  fallbackModels?: string[];
+}
+
+// Failures worth repeating against the same model
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate-limited', 'server', 'network'];
+// Failures another model may not have; bad keys and unreachable servers fail for every model
+const FALLBACK_KINDS: LLMErrorKind[] = ['rate-limited', 'server', 'empty', 'bad-request'];
+
+// Exponential backoff with jitter, unless the server said how long to wait
+const retryDelay = (policy: RetryPolicy, attempt: number, error: LLMProviderError): number => {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const exponential = policy.baseDelayMs * 2 ** attempt;
+  return Math.min(policy.maxDelayMs, exponential / 2 + (Math.random() * exponential) / 2);
+};
+
+// Wrap a provider so each call retries with backoff, then walks the fallback model chain
+export const withRetryAndFallback = (provider: LLMProvider, options: RetryAndFallbackOptions = {}): LLMProvider => {
+  const { retry = DEFAULT_RETRY_POLICY, fallbackModels = [] } = options;
+
+  const modelChain = (model: string): string[] => [model, ...fallbackModels.filter((fallback) => fallback !== model)];
+
+  // Wait and return true if the failed attempt should be repeated on the same model
+  const waitForRetry = async (error: LLMProviderError, attempt: number, request: ChatCompletionRequest): Promise<boolean> => {
+    if (!RETRYABLE_KINDS.includes(error.kind) || attempt >= retry.maxRetries) return false;
+    if (error.retryAfterMs !== undefined && error.retryAfterMs > retry.maxDelayMs) return false;
+
+    const delay = retryDelay(retry, attempt, error);
+    console.warn(`${provider.name} ${error.kind} on ${request.model}, retrying in ${Math.round(delay)}ms`);
+    await abortableDelay(delay, request.signal);
+    return true;
+  };
+
+  const giveUp = (error: LLMProviderError, modelsTried: string[]): LLMProviderError => {
+    error.modelsTried = modelsTried;
+    return error;
+  };
+
+  const complete = async (request: ChatCompletionRequest): Promise<ChatCompletion> => {
+    const modelsTried: string[] = [];
+    let lastError: LLMProviderError | undefined;
+
+    for (const model of modelChain(request.model)) {
+      const attemptRequest = { ...request, model };
+      modelsTried.push(model);
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await provider.complete(attemptRequest);
+        } catch (error) {
+          if (!(error instanceof LLMProviderError)) throw error;
+          lastError = error;
+          if (!(await waitForRetry(error, attempt, attemptRequest))) break;
+        }
+      }
+
+      if (!FALLBACK_KINDS.includes(lastError.kind)) break;
+      console.warn(`${provider.name} model ${model} failed (${lastError.kind}), trying next model`);
+    }
+
+    throw giveUp(lastError, modelsTried);
+  };
+
+  const stream = async function* (request: ChatCompletionRequest): AsyncGenerator<ChatCompletion> {
+    const modelsTried: string[] = [];
+    let lastError: LLMProviderError | undefined;
+
+    for (const model of modelChain(request.model)) {
+      const attemptRequest = { ...request, model };
+      modelsTried.push(model);
+
+      for (let attempt = 0; ; attempt++) {
+        let streamed = false;
+        try {
+          for await (const chunk of provider.stream(attemptRequest)) {
+            streamed = true;
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          // Text already handed to the caller cannot be taken back, so only retry clean failures
+          if (!(error instanceof LLMProviderError) || streamed) throw error;
+          lastError = error;
+          if (!(await waitForRetry(error, attempt, attemptRequest))) break;
+        }
+      }
+
+      if (!FALLBACK_KINDS.includes(lastError.kind)) break;
+      console.warn(`${provider.name} model ${model} failed (${lastError.kind}), trying next model`);
+    }
+
+    throw giveUp(lastError, modelsTried);
+  };
+
+  return { ...provider, complete, stream };
+};
+
+// Build the unwrapped provider for a VITE_LLM_PROVIDER value
+const createBaseProvider = (providerName: string, env: Record<string, string | undefined>): LLMProvider => {
+  const baseUrl = env.VITE_LLM_BASE_URL || undefined;
+  const model = env.VITE_LLM_MODEL || undefined;
+
+  switch (providerName) {
+    case 'llamacpp':
+    case 'llama.cpp':
+      return createLlamaCppProvider(baseUrl, model);
+    case 'ollama':
+      return createOllamaProvider(baseUrl, model);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI-compatible endpoint',
+        url: `${(baseUrl || 'http://localhost:8000').replace(/\/$/, '')}/v1/chat/completions`,
+        apiKey: env.VITE_LLM_API_KEY || undefined,
+        models: localModels(model || 'default'),
+      });
+    case 'openrouter':
+    default:
+      return createOpenRouterProvider(env.VITE_OPENROUTER_API_KEY || '');
+  }
+};
+
+// OpenRouter falls back between the DeepSeek models before any configured alternative
+const OPENROUTER_FALLBACK_MODELS = ['deepseek/deepseek-chat:free', 'deepseek/deepseek-r1'];
+
+// Build the provider selected by VITE_LLM_PROVIDER (defaults to OpenRouter), with retries
+// and the fallback chain from VITE_LLM_FALLBACK_MODELS (comma-separated)
+export const createProviderFromEnv = (env: Record<string, string | undefined> = import.meta.env): LLMProvider => {
+  const providerName = (env.VITE_LLM_PROVIDER || 'openrouter').toLowerCase();
+  const configuredFallbacks = (env.VITE_LLM_FALLBACK_MODELS || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+  const provider = createBaseProvider(providerName, env);
+  const defaultFallbacks = provider.name === 'OpenRouter' ? OPENROUTER_FALLBACK_MODELS : [];
+
+  return withRetryAndFallback(provider, {
+    fallbackModels: [...defaultFallbacks, ...configuredFallbacks],
+  });
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+};
+
+// Override the configured provider (e.g. for tests or a settings screen)
+export const setProvider = (provider: LLMProvider | null): void => {
+  activeProvider = provider;
+};
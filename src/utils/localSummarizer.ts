@@ -0,0 +1,114 @@
+import { throwIfAborted } from './abort';
+import { truncateToWords } from './sentences';
+import type { SummarizerRequest, SummarizerResponse } from '../workers/summarizer.worker';
+
+// In-browser summarization via @huggingface/transformers running in a web worker
+
+export const LOCAL_SUMMARY_MODEL = import.meta.env.VITE_LOCAL_SUMMARY_MODEL || 'Xenova/distilbart-cnn-6-6';
+
+// BART-style tokenizers produce roughly 1.3 tokens per English word
+const TOKENS_PER_WORD = 1.3;
+
+export class LocalSummarizerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocalSummarizerError';
+  }
+}
+
+interface LocalSummaryOptions {
+  minWords: number;
+  maxWords: number;
+  signal?: AbortSignal;
+  // Model download progress (0-100), only reported the first time the model loads
+  onProgress?: (progress: number) => void;
+}
+
+interface PendingRequest {
+  resolve: (summary: string) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/summarizer.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<SummarizerResponse>) => {
+      const message = event.data;
+      const request = pending.get(message.id);
+      if (!request) return;
+
+      if (message.type === 'progress') {
+        request.onProgress?.(message.progress);
+        return;
+      }
+
+      pending.delete(message.id);
+      if (message.type === 'summary') {
+        request.resolve(message.summary);
+      } else {
+        request.reject(new LocalSummarizerError(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      // The worker itself failed to start; fail everything waiting on it and start fresh next time
+      const error = new LocalSummarizerError(event.message || 'Summarizer worker failed to load');
+      pending.forEach((request) => request.reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+export const isLocalSummarizerSupported = (): boolean => typeof Worker !== 'undefined';
+
+// Summarize text within the given word bounds without any network call (after the model is cached)
+export const summarizeLocally = (text: string, options: LocalSummaryOptions): Promise<string> => {
+  const { minWords, maxWords, signal, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    if (!isLocalSummarizerSupported()) {
+      reject(new LocalSummarizerError('Web workers are not supported in this browser'));
+      return;
+    }
+
+    const id = nextRequestId++;
+    const onAbort = () => {
+      // The worker cannot interrupt generation, so just stop waiting for it
+      pending.delete(id);
+      reject(new DOMException('The search was cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pending.set(id, {
+      resolve: (summary) => {
+        signal?.removeEventListener('abort', onAbort);
+        // The model counts tokens, not words, so enforce the word ceiling here
+        resolve(truncateToWords(summary, maxWords));
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress,
+    });
+
+    const request: SummarizerRequest = {
+      id,
+      model: LOCAL_SUMMARY_MODEL,
+      text,
+      minTokens: Math.round(minWords * TOKENS_PER_WORD),
+      maxTokens: Math.round(maxWords * TOKENS_PER_WORD),
+    };
+    getWorker().postMessage(request);
+  });
+};
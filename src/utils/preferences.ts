@@ -0,0 +1,23 @@
+// User preferences persisted in localStorage so they survive reloads.
+// Values are stored as JSON under a namespaced key.
+
+const STORAGE_PREFIX = 'agile:';
+
+export const loadPreference = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + key);
+    return stored === null ? fallback : (JSON.parse(stored) as T);
+  } catch (error) {
+    // Storage can be disabled (e.g. private browsing) or hold a value from an older version
+    console.warn(`Could not read preference "${key}":`, error);
+    return fallback;
+  }
+};
+
+export const savePreference = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save preference "${key}":`, error);
+  }
+};
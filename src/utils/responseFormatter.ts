@@ -0,0 +1,194 @@
+import { splitForSpeech, takeCompleteSentences } from './sentences';
+
+// Turns model output into what is shown and what is spoken. Reasoning models wrap their
+// chain of thought in <think> tags, and most models answer in markdown; the display gets a
+// small markdown subset and the voice gets plain sentences without symbols or URLs.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; text: string }
+  | { type: 'em'; text: string }
+  | { type: 'link'; text: string; url: string };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string };
+
+// Complete reasoning blocks, and an unterminated one at the end of a stream still in progress
+const REASONING_BLOCK = /<think>[\s\S]*?(<\/think>|$)/gi;
+
+export const stripReasoning = (text: string): string => text.replace(REASONING_BLOCK, '').trim();
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*```/;
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unclosed fence runs to the end, as it does while the answer is streaming
+      while (++i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    const listItem = line.match(LIST_ITEM);
+    const quote = line.match(QUOTE);
+
+    if (!line.trim() || RULE.test(line)) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(listItem[2]);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [listItem[2]] });
+      }
+    } else if (quote) {
+      flushParagraph();
+      blocks.push({ type: 'quote', text: quote[1] });
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+// Inline code, bold, italics, [links](url) and bare URLs
+const INLINE_TOKEN =
+  /`([^`]+)`|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|\b_([^_\s][^_]*)_\b|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s)]+)/g;
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_TOKEN)) {
+    if (match.index > last) {
+      nodes.push({ type: 'text', text: text.slice(last, match.index) });
+    }
+    const [, code, strong, strongAlt, em, emAlt, linkText, linkUrl, url] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', text: strong ?? strongAlt });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', text: em ?? emAlt });
+    } else if (linkText !== undefined) {
+      nodes.push({ type: 'link', text: linkText, url: linkUrl });
+    } else {
+      nodes.push({ type: 'link', text: url, url });
+    }
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) {
+    nodes.push({ type: 'text', text: text.slice(last) });
+  }
+  return nodes;
+};
+
+// Only web links are rendered as links; anything else (javascript:, data:) stays text
+export const isSafeUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+// Abbreviations a voice would otherwise spell out or read as a sentence end
+const ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\be\.g\.,?/gi, 'for example,'],
+  [/\bi\.e\.,?/gi, 'that is,'],
+  // Keep the full stop when "etc." also ends the sentence
+  [/\betc\.(?=\s+[A-Z]|\s*$)/g, 'et cetera.'],
+  [/\betc\./g, 'et cetera'],
+  [/\bvs\.?(?=\s)/gi, 'versus'],
+  [/\bapprox\./gi, 'approximately'],
+  [/\s&\s/g, ' and '],
+];
+
+// Markup characters that are noise when read aloud
+const SPOKEN_SYMBOLS = /[*_#`|~<>[\]{}^\\]/g;
+
+const inlineToSpoken = (text: string): string => {
+  let spoken = parseInline(text)
+    .map((node) => (node.type === 'link' && node.text === node.url ? '' : node.text))
+    .join('');
+
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    spoken = spoken.replace(pattern, replacement);
+  }
+  return spoken.replace(SPOKEN_SYMBOLS, ' ').replace(/\s+/g, ' ').replace(/\s+([,.!?;:])/g, '$1').trim();
+};
+
+// Every block becomes a line of its own that ends a sentence, so headings and list items
+// are read with a pause instead of running into the next line
+const endSentence = (text: string): string =>
+  /[.!?]["')\]]*$/.test(text) ? text : text.replace(/[,;:]$/, '') + '.';
+
+const blockToSpoken = (block: MarkdownBlock): string[] => {
+  switch (block.type) {
+    case 'code':
+      // Code is unreadable aloud; the text around it normally explains it
+      return [];
+    case 'list':
+      return block.items.map(inlineToSpoken);
+    default:
+      return [inlineToSpoken(block.text)];
+  }
+};
+
+// The answer as it should be spoken: no reasoning, markup, symbols or URLs
+export const toSpokenText = (text: string): string =>
+  parseMarkdown(stripReasoning(text))
+    .flatMap(blockToSpoken)
+    .filter(Boolean)
+    .map(endSentence)
+    .join('\n');
+
+// The spoken sentences, split the same way the speech queue splits them
+export const spokenSentences = (text: string): string[] => splitForSpeech(toSpokenText(text));
+
+// Spoken sentences that are already final in a partially streamed answer; the last
+// line may still grow, so it is held back until more text arrives
+export const completeSpokenSentences = (text: string): string[] =>
+  takeCompleteSentences(toSpokenText(text)).sentences.flatMap(splitForSpeech);
+
+// Index of the first spoken sentence of each block, for starting speech from a block
+export const blockSentenceOffsets = (blocks: MarkdownBlock[]): number[] => {
+  let offset = 0;
+  return blocks.map((block) => {
+    const start = offset;
+    offset += blockToSpoken(block)
+      .filter(Boolean)
+      .map(endSentence)
+      .flatMap(splitForSpeech).length;
+    return start;
+  });
+};
@@ -1,21 +1,92 @@
-// Configuration - Store API keys in environment variables for security
-const OPENROUTER_API_KEY = import.meta.env.VITE_OPENROUTER_API_KEY || '';
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
-
-// Interface for OpenRouter API response
-interface OpenRouterResponse {
-  choices?: Array<{
-    message: { content: string };
-  }>;
-  error?: { message: string; code?: number };
+import { getProvider, LLMProviderError, type ChatCompletion, type ChatCompletionRequest, type LLMProvider } from './llmProvider';
+import { getWebSearchBackend } from './webSearch';
+import { toMessageHistory, type ConversationSession } from './conversation';
+import { isAbortError } from './abort';
+import { LOCAL_SUMMARY_MODEL, summarizeLocally } from './localSummarizer';
+import { truncateToWords } from './sentences';
+import { DEFAULT_LOCALE, findLanguage } from './languages';
+import { stripReasoning } from './responseFormatter';
+
+// Number of web pages scraped, and characters kept from each, when falling back to web search
+const WEB_SEARCH_PAGE_LIMIT = 3;
+const WEB_PAGE_EXCERPT_LENGTH = 500;
+
+export interface Source {
+  title: string;
+  url?: string;
 }
 
-// Interface for search results
-interface SearchResult {
+export type SearchMode = 'brief' | 'detailed' | 'quick';
+
+// Where the answered text came from: the model's own knowledge, the news prompt, or web pages
+export type ContentOrigin = 'model' | 'news' | 'web';
+
+export interface SearchTimings {
+  retrievalMs: number;
+  summaryMs: number;
+  totalMs: number;
+}
+
+// Typed result returned by every public search function
+export interface SearchResult {
+  // Text to show and speak
+  summary: string;
+  // Unsummarized content the summary was made from
+  fullText: string;
+  sources: Source[];
+  provider: string;
+  model: string;
+  mode: SearchMode;
+  origin: ContentOrigin;
+  timings: SearchTimings;
+}
+
+export type SearchErrorKind = 'missing-key' | 'auth' | 'rate-limited' | 'network' | 'server' | 'empty' | 'unknown';
+
+export interface SearchError {
+  kind: SearchErrorKind;
+  // Plain-language explanation, suitable for a toast and for speaking
+  message: string;
+  // How long the service asked us to wait before retrying
+  retryAfterMs?: number;
+  modelsTried?: string[];
+}
+
+// What every public search function resolves with; cancellation still rejects with an AbortError
+export type SearchOutcome = { status: 'ok'; result: SearchResult } | { status: 'error'; error: SearchError };
+
+// Content gathered before summarization
+interface RetrievedContent {
   content: string;
-  source?: string;
+  origin: ContentOrigin;
+  model: string;
+  sources: Source[];
 }
 
+// 'remote' summarizes with the LLM provider (falling back to the on-device model);
+// 'local' only uses the on-device model, for fully offline use
+export type SummarizerBackend = 'remote' | 'local';
+
+const DEFAULT_SUMMARIZER: SummarizerBackend = import.meta.env.VITE_SUMMARIZER === 'local' ? 'local' : 'remote';
+
+// Options accepted by every public search function
+export interface SearchOptions {
+  // Prior turns sent to the model so follow-up questions keep their context
+  session?: ConversationSession;
+  // Cancels every request made for the search; the call then rejects with an AbortError
+  signal?: AbortSignal;
+  // Where summaries are generated; defaults to VITE_SUMMARIZER
+  summarizer?: SummarizerBackend;
+  // Locale of the language to answer in, e.g. 'fr-FR'; defaults to English
+  language?: string;
+  // How much to retrieve and summarize in streamSearchAndSummarize; defaults to 'brief'
+  mode?: SearchMode;
+}
+
+// Appended to prompts so the model answers in the user's language
+const answerLanguageInstruction = (options: SearchOptions): string =>
+  `Respond in ${findLanguage(options.language ?? DEFAULT_LOCALE).name}.`;
+
 // Utility to check if DeepSeek response lacks current information
 const isOutdatedResponse = (content: string): boolean => {
   const lowerContent = content.toLowerCase();
@@ -31,307 +102,491 @@ const isOutdatedResponse = (content: string): boolean => {
   );
 };
 
-// Fetch content using OpenRouter DeepSeek R1 with enhanced prompting
-const fetchDeepSeekResults = async (query: string): Promise<SearchResult> => {
-  try {
-    const cleanQuery = query.trim();
-    if (!cleanQuery) {
-      return { content: 'Please provide a search query.' };
-    }
+// Map a thrown failure onto the error channel returned to callers
+const toSearchError = (error: unknown): SearchError => {
+  const providerName = getProvider().name;
+  if (!(error instanceof LLMProviderError)) {
+    return { kind: 'unknown', message: `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.` };
+  }
 
-    if (!OPENROUTER_API_KEY) {
-      return { content: 'OpenRouter API key is missing. Please configure it in environment variables.' };
-    }
+  const { retryAfterMs, modelsTried } = error;
+  switch (error.kind) {
+    case 'missing-key':
+      return { kind: 'missing-key', message: error.message };
+    case 'auth':
+      return { kind: 'auth', message: `API key invalid or access denied. Please check your ${providerName} API key.` };
+    case 'rate-limited':
+      return {
+        kind: 'rate-limited',
+        message: modelsTried && modelsTried.length > 1
+          ? `All models are busy right now (tried ${modelsTried.join(', ')}). Please wait a moment and try again.`
+          : 'Too many requests. Please wait a moment and try again.',
+        retryAfterMs,
+        modelsTried,
+      };
+    case 'network':
+      return { kind: 'network', message: 'Network error. Please check your internet connection and try again.' };
+    case 'empty':
+      return { kind: 'empty', message: 'No results found. Try using different keywords.', modelsTried };
+    case 'bad-request':
+    case 'server':
+    default:
+      return { kind: 'server', message: `${providerName} API error (${error.status ?? 'unknown'}): ${error.message}`, modelsTried };
+  }
+};
+
+const emptyQueryError: SearchError = { kind: 'empty', message: 'Please provide a search query.' };
+
+const noResultsError = (query: string): SearchError => ({
+  kind: 'empty',
+  message: `No results found for "${query.trim()}". Try using different keywords.`,
+});
 
-    // Enhanced prompt to encourage more comprehensive responses
-    const enhancedPrompt = `Please provide a detailed and informative response about: "${cleanQuery}". 
+// Fetch content from the configured provider with enhanced prompting; null when the model had nothing to say
+const fetchDeepSeekResults = async (query: string, options: SearchOptions = {}): Promise<RetrievedContent | null> => {
+  const provider = getProvider();
+  const cleanQuery = query.trim();
+
+  // Enhanced prompt to encourage more comprehensive responses
+  const enhancedPrompt = `Please provide a detailed and informative response about: "${cleanQuery}". 
     Include relevant facts, recent developments if known, and context. 
     If this involves current events or recent news, provide the most up-to-date information available to you.
-    Make your response comprehensive and informative, at least 200 words.`;
-
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'deepseek/deepseek-chat:free',
-        messages: [
-          {
-            role: 'user',
-            content: enhancedPrompt,
-          },
-        ],
-        max_tokens: 1500,
-        temperature: 0.7,
-      }),
-    });
-
-    console.log('OpenRouter API Response Status:', response.status);
-
-    const data: OpenRouterResponse = await response.json();
-
-    if (!response.ok) {
-      console.error('API Error Response:', data);
-      if (data.error) {
-        const errorMessage = data.error.message || 'Unknown API error';
-        const errorCode = data.error.code || response.status;
-        switch (errorCode) {
-          case 400:
-            return { content: `Query error: ${errorMessage}. Please try a different search term.` };
-          case 403:
-            return { content: 'API key invalid or access denied. Please check your OpenRouter API key.' };
-          case 429:
-            return { content: 'Too many requests. Please wait a moment and try again.' };
-          default:
-            return { content: `OpenRouter API error (${errorCode}): ${errorMessage}` };
-        }
-      }
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+    Make your response comprehensive and informative, at least 200 words.
+    ${answerLanguageInstruction(options)}`;
 
-    if (!data.choices || data.choices.length === 0 || !data.choices[0].message.content) {
-      return { content: `No results found for "${cleanQuery}". Try using different keywords.` };
-    }
+  try {
+    const completion = await provider.complete({
+      model: provider.models.search,
+      messages: [...toMessageHistory(options.session), { role: 'user', content: enhancedPrompt }],
+      maxTokens: 1500,
+      temperature: 0.7,
+      signal: options.signal,
+    });
 
-    console.log(`Received DeepSeek response for "${cleanQuery}"`);
-    return { content: data.choices[0].message.content };
+    console.log(`Received ${completion.model} response for "${cleanQuery}"`);
+    // Reasoning models think out loud in <think> blocks, which must not be summarized
+    return { content: stripReasoning(completion.content), origin: 'model', model: completion.model, sources: [] };
   } catch (error) {
-    console.error('OpenRouter API failed:', error);
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      return { content: 'Network error. Please check your internet connection and try again.' };
+    if (error instanceof LLMProviderError && error.kind === 'empty') {
+      console.log(`No ${provider.name} results for "${cleanQuery}"`);
+      return null;
     }
-    return { content: `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.` };
+    // Everything else, including cancellation, is surfaced to the caller as-is
+    throw error;
   }
 };
 
-// Fetch news-focused content using DeepSeek with news-specific prompting
-const fetchNewsResults = async (query: string): Promise<SearchResult> => {
-  try {
-    const cleanQuery = query.trim();
-    if (!cleanQuery) {
-      return { content: 'Please provide a search query.' };
-    }
+// Fetch news-focused content with news-specific prompting; null when there was no news
+const fetchNewsResults = async (query: string, options: SearchOptions = {}): Promise<RetrievedContent | null> => {
+  const provider = getProvider();
+  const cleanQuery = query.trim();
 
-    if (!OPENROUTER_API_KEY) {
-      return { content: 'OpenRouter API key is missing. Please configure it in environment variables.' };
-    }
-
-    // News-specific prompt
-    const newsPrompt = `Provide recent news and information about: "${cleanQuery}". 
+  // News-specific prompt
+  const newsPrompt = `Provide recent news and information about: "${cleanQuery}". 
     Focus on current events, recent developments, and newsworthy information. 
     If you have knowledge about recent events related to this topic, please share them.
     Include specific details, dates when possible, and context.
-    Make your response informative and news-focused, at least 250 words.`;
-
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'deepseek/deepseek-r1',
-        messages: [
-          {
-            role: 'user',
-            content: newsPrompt,
-          },
-        ],
-        max_tokens: 2000,
-        temperature: 0.7,
-      }),
-    });
-
-    console.log('News-focused DeepSeek API Response Status:', response.status);
+    Make your response informative and news-focused, at least 250 words.
+    ${answerLanguageInstruction(options)}`;
 
-    const data: OpenRouterResponse = await response.json();
-
-    if (!response.ok || !data.choices || data.choices.length === 0) {
-      return { content: `No recent news found for "${cleanQuery}". The topic may not have recent coverage or try using different keywords.` };
-    }
+  try {
+    const completion = await provider.complete({
+      model: provider.models.news,
+      messages: [...toMessageHistory(options.session), { role: 'user', content: newsPrompt }],
+      maxTokens: 2000,
+      temperature: 0.7,
+      signal: options.signal,
+    });
 
     console.log(`Found news-focused response for "${cleanQuery}"`);
-    return { content: data.choices[0].message.content, source: 'DeepSeek News' };
+    return { content: stripReasoning(completion.content), origin: 'news', model: completion.model, sources: [] };
   } catch (error) {
-    console.error('News-focused DeepSeek search failed:', error);
-    return await fetchDeepSeekResults(query); // Fall back to basic search
+    if (error instanceof LLMProviderError && error.kind === 'empty') {
+      console.log(`No recent news found for "${cleanQuery}"`);
+      return null;
+    }
+    throw error;
   }
 };
 
-// New function to summarize content using DeepSeek
-const summarizeWithDeepSeek = async (content: string, maxLength: number = 120, minLength: number = 40): Promise<string> => {
+// Search the web and scrape the top pages; null when no backend is configured or nothing was found
+const fetchWebResults = async (query: string, options: SearchOptions = {}): Promise<RetrievedContent | null> => {
+  const backend = getWebSearchBackend();
+  const previousTurn = options.session?.turns[options.session.turns.length - 1];
+  // Search engines have no memory, so carry the previous question along for follow-ups
+  // unless this is the same question asked again for more detail
+  const followsUp = previousTurn && previousTurn.query.trim() !== query.trim();
+  const cleanQuery = [followsUp && previousTurn.query, query].filter(Boolean).join(' ').trim();
+  if (!backend || !query.trim()) {
+    return null;
+  }
+
   try {
-    if (!OPENROUTER_API_KEY) {
-      return 'OpenRouter API key is missing. Please configure it in environment variables.';
+    const pages = await backend.search(cleanQuery, WEB_SEARCH_PAGE_LIMIT, options.signal);
+    if (pages.length === 0) {
+      console.log(`${backend.name} found no pages for "${cleanQuery}"`);
+      return null;
     }
 
-    const summaryPrompt = `Please summarize the following text into a concise paragraph of ${minLength} to ${maxLength} words. Focus on the key points, main ideas, and critical information. Avoid adding extra details or opinions not present in the text. Here is the text to summarize: "${content}"`;
-
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'deepseek/deepseek-r1',
-        messages: [
-          {
-            role: 'user',
-            content: summaryPrompt,
-          },
-        ],
-        max_tokens: 500, // Enough tokens for a summary of 120 words
-        temperature: 0.7,
-      }),
-    });
+    console.log(`${backend.name} scraped ${pages.length} pages for "${cleanQuery}"`);
+    const content = pages
+      .map((page) => `${page.title}\n${page.content.slice(0, WEB_PAGE_EXCERPT_LENGTH)}`)
+      .join('\n\n');
+    return {
+      content,
+      origin: 'web',
+      model: backend.name,
+      sources: pages.map((page) => ({ title: page.title, url: page.url })),
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${backend.name} search failed:`, error);
+    return null;
+  }
+};
 
-    console.log('DeepSeek Summarization API Response Status:', response.status);
+// Build the summarization request shared by the buffered and streaming paths
+const summaryRequest = (
+  provider: LLMProvider,
+  content: string,
+  maxLength: number,
+  minLength: number,
+  options: SearchOptions
+): ChatCompletionRequest => ({
+  model: provider.models.summary,
+  messages: [
+    {
+      role: 'user',
+      content: `Please summarize the following text into a concise paragraph of ${minLength} to ${maxLength} words. Focus on the key points, main ideas, and critical information. Avoid adding extra details or opinions not present in the text. ${answerLanguageInstruction(options)} Here is the text to summarize: "${content}"`,
+    },
+  ],
+  maxTokens: 500, // Enough tokens for a summary of 120 words
+  temperature: 0.7,
+  signal: options.signal,
+});
+
+// Reported as the model when summarization failed and the content was truncated instead
+const TRUNCATION_MODEL = 'truncation';
+
+// Remote summarization failures worth hiding behind a fallback; key problems are surfaced instead
+const canFallBack = (error: unknown): boolean =>
+  error instanceof LLMProviderError && error.kind !== 'missing-key' && error.kind !== 'auth';
+
+const truncate = (content: string, maxLength: number): ChatCompletion => ({
+  content: truncateToWords(content, maxLength),
+  model: TRUNCATION_MODEL,
+});
+
+// Summarize in the browser, truncating to the word limit if the model cannot run
+const summarizeOnDevice = async (
+  content: string,
+  maxLength: number,
+  minLength: number,
+  signal?: AbortSignal
+): Promise<ChatCompletion> => {
+  try {
+    const summary = await summarizeLocally(content, { minWords: minLength, maxWords: maxLength, signal });
+    console.log(`Successfully summarized content with ${LOCAL_SUMMARY_MODEL}`);
+    return { content: summary, model: LOCAL_SUMMARY_MODEL };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Local summarization failed:', error);
+    return truncate(content, maxLength); // Fallback to truncation if summarization fails
+  }
+};
 
-    const data: OpenRouterResponse = await response.json();
+// Summarize content with the configured provider
+const summarizeWithDeepSeek = async (
+  content: string,
+  maxLength: number = 120,
+  minLength: number = 40,
+  options: SearchOptions = {}
+): Promise<ChatCompletion> => {
+  const provider = getProvider();
 
-    if (!response.ok || !data.choices || data.choices.length === 0 || !data.choices[0].message.content) {
-      console.error('Summarization failed:', data);
-      return content.slice(0, maxLength) + '...'; // Fallback to truncation if summarization fails
-    }
+  try {
+    const summary = await provider.complete(summaryRequest(provider, content, maxLength, minLength, options));
 
-    console.log('Successfully summarized content with DeepSeek');
-    return data.choices[0].message.content.trim();
+    console.log(`Successfully summarized content with ${summary.model}`);
+    return { content: stripReasoning(summary.content), model: summary.model };
   } catch (error) {
-    console.error('DeepSeek summarization failed:', error);
-    return content.slice(0, maxLength) + '...'; // Fallback to truncation
+    if (!canFallBack(error)) throw error;
+    console.error('Summarization failed:', error);
+    return summarizeOnDevice(content, maxLength, minLength, options.signal);
   }
 };
 
-// Main function to search and summarize
-export const searchAndSummarize = async (query: string): Promise<string> => {
+// Stream the summary as it is generated, with the same fallbacks as summarizeWithDeepSeek
+async function* streamSummaryWithDeepSeek(
+  content: string,
+  maxLength: number = 120,
+  minLength: number = 40,
+  options: SearchOptions = {}
+): AsyncGenerator<ChatCompletion> {
+  const provider = getProvider();
+  let streamed = false;
+
   try {
-    console.log('Starting search for:', query);
-    
-    // First try the enhanced DeepSeek search
-    let result = await fetchDeepSeekResults(query);
-
-    // If the response seems insufficient, try news-focused search
-    if (isOutdatedResponse(result.content)) {
-      console.log('Standard response insufficient, trying news-focused search');
-      result = await fetchNewsResults(query);
+    for await (const delta of provider.stream(summaryRequest(provider, content, maxLength, minLength, options))) {
+      streamed = true;
+      yield delta;
     }
+    console.log(`Successfully streamed summary from ${provider.name}`);
+  } catch (error) {
+    if (!canFallBack(error)) throw error;
+    console.error('Streaming summarization failed:', error);
+    // Once text has been shown and spoken there is nothing sensible to fall back to
+    if (streamed) return;
+    yield await summarizeOnDevice(content, maxLength, minLength, options.signal);
+  }
+}
 
-    // If still insufficient, return the content as-is
-    if (result.content.length < 150 || result.content.includes('No results found') || result.content.includes('No recent news found')) {
-      return result.content;
+// Summarize with the backend chosen in the options
+const summarize = (content: string, maxLength: number, minLength: number, options: SearchOptions): Promise<ChatCompletion> =>
+  (options.summarizer ?? DEFAULT_SUMMARIZER) === 'local'
+    ? summarizeOnDevice(content, maxLength, minLength, options.signal)
+    : summarizeWithDeepSeek(content, maxLength, minLength, options);
+
+// Streaming counterpart of summarize; the on-device model produces its summary in one piece
+async function* streamSummary(content: string, maxLength: number, minLength: number, options: SearchOptions): AsyncGenerator<ChatCompletion> {
+  if ((options.summarizer ?? DEFAULT_SUMMARIZER) === 'local') {
+    yield await summarizeOnDevice(content, maxLength, minLength, options.signal);
+    return;
+  }
+  yield* streamSummaryWithDeepSeek(content, maxLength, minLength, options);
+}
+
+// Get the raw content to summarize: enhanced search first, then web search, then news.
+// Null when every source came back empty.
+const retrieveContent = async (query: string, options: SearchOptions): Promise<RetrievedContent | null> => {
+  // First try the enhanced DeepSeek search
+  let result = await fetchDeepSeekResults(query, options);
+
+  // If the response seems missing or insufficient, search the web, then try news-focused search
+  if (!result || isOutdatedResponse(result.content)) {
+    console.log('Standard response insufficient, trying web search');
+    try {
+      result = (await fetchWebResults(query, options)) ?? (await fetchNewsResults(query, options)) ?? result;
+    } catch (error) {
+      // A weak answer beats none when the news fallback fails
+      if (!result || !(error instanceof LLMProviderError)) throw error;
+      console.warn('News-focused fallback failed, keeping the first answer:', error);
     }
+  }
 
-    // Summarize the content using DeepSeek
-    const truncatedContent = result.content.slice(0, 1500); // Truncate to avoid overwhelming the API
-    const summary = await summarizeWithDeepSeek(truncatedContent, 120, 40);
+  return result;
+};
 
-    let finalText = summary;
+// Detailed retrieval: news-focused search first, then web search, then enhanced search
+const retrieveDetailedContent = async (query: string, options: SearchOptions): Promise<RetrievedContent | null> => {
+  const result = await fetchNewsResults(query, options);
 
-    if (result.source) {
-      finalText += `\n\nSource: ${result.source}`;
-    }
+  if (!result || isOutdatedResponse(result.content)) {
+    console.log('News search insufficient, trying web search');
+    return (await fetchWebResults(query, options)) ?? (await fetchDeepSeekResults(query, options)) ?? result;
+  }
+  return result;
+};
 
-    return finalText;
-  } catch (error) {
-    console.error('Error in searchAndSummarize:', error);
-    return "I'm sorry, I couldn't find or process information for that query. Would you like to try asking something else?";
+// Quick retrieval: enhanced search, then news-focused search, without web search
+const retrieveQuickContent = async (query: string, options: SearchOptions): Promise<RetrievedContent | null> => {
+  const result = await fetchDeepSeekResults(query, options);
+
+  if (!result || isOutdatedResponse(result.content)) {
+    console.log('Quick search response insufficient, trying news-focused search');
+    return (await fetchNewsResults(query, options)) ?? result;
   }
+  return result;
 };
 
-// Detailed search and summarize
-export const searchAndSummarizeDetailed = async (query: string): Promise<string> => {
+interface SummaryLimits {
+  // Shorter content is answered as-is
+  minContentLength: number;
+  // Content is cut to this many characters to avoid overwhelming the API
+  maxInputLength: number;
+  minWords: number;
+  maxWords: number;
+}
+
+// How each mode retrieves content and how long its summary is; quick answers are not summarized
+const MODE_SETTINGS: Record<SearchMode, { retrieve: typeof retrieveContent; summary: SummaryLimits | null }> = {
+  brief: {
+    retrieve: retrieveContent,
+    summary: { minContentLength: 150, maxInputLength: 1500, minWords: 40, maxWords: 120 },
+  },
+  detailed: {
+    retrieve: retrieveDetailedContent,
+    summary: { minContentLength: 200, maxInputLength: 2000, minWords: 60, maxWords: 180 },
+  },
+  quick: {
+    retrieve: retrieveQuickContent,
+    summary: null,
+  },
+};
+
+// Assemble the typed result; without a summary the retrieved content is answered as-is
+const buildResult = (
+  retrieved: RetrievedContent,
+  summary: ChatCompletion | null,
+  mode: SearchMode,
+  startedAt: number,
+  retrievedAt: number
+): SearchResult => {
+  const finishedAt = performance.now();
+  return {
+    summary: summary ? summary.content : retrieved.content,
+    fullText: retrieved.content,
+    sources: retrieved.sources,
+    provider: getProvider().name,
+    model: summary ? summary.model : retrieved.model,
+    mode,
+    origin: retrieved.origin,
+    timings: {
+      retrievalMs: Math.round(retrievedAt - startedAt),
+      summaryMs: Math.round(finishedAt - retrievedAt),
+      totalMs: Math.round(finishedAt - startedAt),
+    },
+  };
+};
+
+// Convert a thrown failure into an outcome; cancellation is rethrown for the caller
+const failedOutcome = (error: unknown, context: string): SearchOutcome => {
+  if (isAbortError(error)) throw error;
+  console.error(`Error in ${context}:`, error);
+  return { status: 'error', error: toSearchError(error) };
+};
+
+// Retrieve and summarize in the given mode; shared by the buffered search functions
+const runSearch = async (query: string, mode: SearchMode, options: SearchOptions): Promise<SearchOutcome> => {
+  const startedAt = performance.now();
+  if (!query.trim()) {
+    return { status: 'error', error: emptyQueryError };
+  }
+
+  const { retrieve, summary: limits } = MODE_SETTINGS[mode];
   try {
-    console.log('Starting detailed search for:', query);
-    
-    // Try news-focused search first for detailed queries
-    let result = await fetchNewsResults(query);
-
-    // If insufficient, fall back to enhanced search
-    if (isOutdatedResponse(result.content)) {
-      console.log('News search insufficient, falling back to enhanced search');
-      result = await fetchDeepSeekResults(query);
+    console.log(`Starting ${mode} search for:`, query);
+    const retrieved = await retrieve(query, options);
+    const retrievedAt = performance.now();
+
+    if (!retrieved) {
+      return { status: 'error', error: noResultsError(query) };
     }
 
-    if (result.content.length < 200) {
-      return result.content;
+    // Quick answers, and content too thin to summarize, are returned as-is
+    if (!limits || retrieved.content.length < limits.minContentLength) {
+      return { status: 'ok', result: buildResult(retrieved, null, mode, startedAt, retrievedAt) };
     }
 
-    // Summarize the content using DeepSeek with a longer summary
-    const truncatedContent = result.content.slice(0, 2000);
-    const summary = await summarizeWithDeepSeek(truncatedContent, 180, 60);
+    const truncatedContent = retrieved.content.slice(0, limits.maxInputLength);
+    const summary = await summarize(truncatedContent, limits.maxWords, limits.minWords, options);
 
-    let finalText = summary;
+    return { status: 'ok', result: buildResult(retrieved, summary, mode, startedAt, retrievedAt) };
+  } catch (error) {
+    return failedOutcome(error, `${mode} search`);
+  }
+};
+
+// Main function to search and summarize
+export const searchAndSummarize = (query: string, options: SearchOptions = {}): Promise<SearchOutcome> =>
+  runSearch(query, 'brief', options);
+
+export type SearchStreamEvent =
+  // A piece of the summary as it arrives
+  | { type: 'token'; text: string }
+  // The complete result; its summary may replace the tokens if nothing was streamed
+  | { type: 'done'; result: SearchResult }
+  // The search failed before an answer could be produced
+  | { type: 'error'; error: SearchError };
+
+// Streaming variant of searchAndSummarize: yields summary tokens as they arrive
+export async function* streamSearchAndSummarize(query: string, options: SearchOptions = {}): AsyncGenerator<SearchStreamEvent> {
+  const startedAt = performance.now();
+  if (!query.trim()) {
+    yield { type: 'error', error: emptyQueryError };
+    return;
+  }
+
+  let text = '';
+  let summaryModel = '';
+  let outcome: SearchOutcome;
+  const mode = options.mode ?? 'brief';
+  const { retrieve, summary: limits } = MODE_SETTINGS[mode];
+
+  try {
+    console.log(`Starting streamed ${mode} search for:`, query);
+    const retrieved = await retrieve(query, options);
+    const retrievedAt = performance.now();
 
-    if (result.source) {
-      finalText += `\n\nSource: ${result.source}`;
+    if (!retrieved) {
+      yield { type: 'error', error: noResultsError(query) };
+      return;
     }
 
-    return finalText;
+    // Quick answers, and content too thin to summarize, are returned as-is
+    if (!limits || retrieved.content.length < limits.minContentLength) {
+      yield { type: 'done', result: buildResult(retrieved, null, mode, startedAt, retrievedAt) };
+      return;
+    }
+
+    const truncatedContent = retrieved.content.slice(0, limits.maxInputLength);
+    for await (const delta of streamSummary(truncatedContent, limits.maxWords, limits.minWords, options)) {
+      text += delta.content;
+      summaryModel = delta.model;
+      yield { type: 'token', text: delta.content };
+    }
+
+    // Tokens are streamed raw; the final summary drops any reasoning the model emitted
+    const summary = { content: stripReasoning(text), model: summaryModel };
+    outcome = { status: 'ok', result: buildResult(retrieved, summary, mode, startedAt, retrievedAt) };
   } catch (error) {
-    console.error('Error in detailed searchAndSummarize:', error);
-    return "I'm sorry, I couldn't find or process information for that query. Would you like to try asking something else?";
+    outcome = failedOutcome(error, 'streamSearchAndSummarize');
   }
-};
+
+  yield outcome.status === 'ok' ? { type: 'done', result: outcome.result } : { type: 'error', error: outcome.error };
+}
+
+// Detailed search and summarize
+export const searchAndSummarizeDetailed = (query: string, options: SearchOptions = {}): Promise<SearchOutcome> =>
+  runSearch(query, 'detailed', options);
 
 // Debug function to test API configurations
 export const testApiConfiguration = async (): Promise<string> => {
+  const provider = getProvider();
+  const results = [];
+
   try {
-    const openRouterResponse = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'deepseek/deepseek-r1',
-        messages: [{ role: 'user', content: 'Test query - please respond with a brief acknowledgment.' }],
-        max_tokens: 50,
-      }),
+    await provider.complete({
+      model: provider.models.summary,
+      messages: [{ role: 'user', content: 'Test query - please respond with a brief acknowledgment.' }],
+      maxTokens: 50,
     });
 
-    const openRouterData: OpenRouterResponse = await openRouterResponse.json();
-
-    const results = [];
-
-    if (openRouterResponse.ok && openRouterData.choices && openRouterData.choices.length > 0) {
-      results.push('✅ OpenRouter API configuration is working correctly!');
-      // Test summarization by sending a short text to summarize
-      const testText = "This is a test text for summarization. It contains multiple sentences to ensure the summarization works properly. Let's see if DeepSeek can summarize this effectively.";
-      const summary = await summarizeWithDeepSeek(testText, 30, 10);
-      if (!summary.includes('...')) {
-        results.push('✅ DeepSeek Summarization is working correctly!');
-      } else {
-        results.push('⚠️ DeepSeek Summarization failed, used fallback truncation.');
-      }
-    } else if (openRouterData.error) {
-      results.push(`❌ OpenRouter API Error: ${openRouterData.error.message} (Code: ${openRouterData.error.code || 'Unknown'})`);
+    results.push(`✅ ${provider.name} API configuration is working correctly!`);
+    // Test summarization by sending a short text to summarize
+    const testText = "This is a test text for summarization. It contains multiple sentences to ensure the summarization works properly. Let's see if DeepSeek can summarize this effectively.";
+    const summary = await summarizeWithDeepSeek(testText, 30, 10);
+    if (summary.model === LOCAL_SUMMARY_MODEL) {
+      results.push('⚠️ DeepSeek Summarization failed, used the on-device summarizer.');
+    } else if (summary.model === TRUNCATION_MODEL) {
+      results.push('⚠️ DeepSeek Summarization failed, used fallback truncation.');
     } else {
-      results.push(`⚠️ OpenRouter API responded but no results found. Status: ${openRouterResponse.status}`);
+      results.push('✅ DeepSeek Summarization is working correctly!');
     }
-
-    return results.join('\n');
   } catch (error) {
-    return `❌ Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    if (!(error instanceof LLMProviderError) || error.kind === 'network') {
+      return `❌ Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+    if (error.kind === 'empty') {
+      results.push(`⚠️ ${provider.name} API responded but no results found. Status: ${error.status ?? 'Unknown'}`);
+    } else {
+      results.push(`❌ ${provider.name} API Error: ${error.message} (Code: ${error.status || 'Unknown'})`);
+    }
   }
+
+  return results.join('\n');
 };
 
 // Quick search without summarization
-export const quickSearch = async (query: string): Promise<string> => {
-  try {
-    console.log('Starting quick search for:', query);
-    const result = await fetchDeepSeekResults(query);
-    
-    if (isOutdatedResponse(result.content)) {
-      console.log('Quick search response insufficient, trying news-focused search');
-      return (await fetchNewsResults(query)).content;
-    }
-    
-    return result.content;
-  } catch (error) {
-    console.error('Error in quickSearch:', error);
-    return 'Search failed. Please try again.';
-  }
-};
\ No newline at end of file
+export const quickSearch = (query: string, options: SearchOptions = {}): Promise<SearchOutcome> =>
+  runSearch(query, 'quick', options);
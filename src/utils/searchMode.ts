@@ -0,0 +1,20 @@
+import { loadPreference, savePreference } from './preferences';
+import type { SearchMode } from './searchAndSummarize';
+
+// The answer mode picked in the UI, remembered across visits
+
+const SEARCH_MODES: SearchMode[] = ['brief', 'detailed', 'quick'];
+
+export const DEFAULT_SEARCH_MODE: SearchMode = 'brief';
+
+const SEARCH_MODE_PREFERENCE_KEY = 'search-mode';
+
+export const isSearchMode = (value: unknown): value is SearchMode => SEARCH_MODES.includes(value as SearchMode);
+
+// A stale or hand-edited value falls back to the default rather than breaking every search
+export const loadSearchMode = (): SearchMode => {
+  const mode = loadPreference<unknown>(SEARCH_MODE_PREFERENCE_KEY, DEFAULT_SEARCH_MODE);
+  return isSearchMode(mode) ? mode : DEFAULT_SEARCH_MODE;
+};
+
+export const saveSearchMode = (mode: SearchMode): void => savePreference(SEARCH_MODE_PREFERENCE_KEY, mode);
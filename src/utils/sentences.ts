@@ -0,0 +1,65 @@
+// Sentence end: terminal punctuation, optional closing quotes/brackets, then whitespace
+const SENTENCE_BOUNDARY = /[.!?]+["')\]]*\s+/g;
+
+// Split complete sentences off the front of streamed text, keeping the unfinished tail
+export const takeCompleteSentences = (text: string): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = match.index + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) {
+      sentences.push(sentence);
+    }
+    start = end;
+  }
+
+  return { sentences, rest: text.slice(start) };
+};
+
+// Cut text to at most maxWords words, ending on a sentence boundary when one is close enough
+export const truncateToWords = (text: string, maxWords: number): string => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length <= maxWords) {
+    return words.join(' ');
+  }
+
+  const clipped = words.slice(0, maxWords).join(' ');
+  const lastSentenceEnd = Math.max(clipped.lastIndexOf('. '), clipped.lastIndexOf('! '), clipped.lastIndexOf('? '));
+  // Prefer a whole sentence unless that would throw away more than half the text
+  if (lastSentenceEnd > clipped.length / 2) {
+    return clipped.slice(0, lastSentenceEnd + 1);
+  }
+  return clipped.replace(/[,;:\-–—]+$/, '') + '...';
+};
+
+// Chrome stops speaking an utterance after about 15 seconds, so longer sentences are split
+const MAX_SPEECH_CHUNK_LENGTH = 200;
+
+// Split a long sentence at clause punctuation, or failing that between words
+const splitLongSentence = (sentence: string): string[] => {
+  const chunks: string[] = [];
+  let remaining = sentence;
+
+  while (remaining.length > MAX_SPEECH_CHUNK_LENGTH) {
+    const head = remaining.slice(0, MAX_SPEECH_CHUNK_LENGTH);
+    const clauseEnd = Math.max(head.lastIndexOf(', '), head.lastIndexOf('; '), head.lastIndexOf(': '));
+    const wordEnd = head.lastIndexOf(' ');
+    // Cut after the clause punctuation when there is a reasonable amount before it
+    const cut = clauseEnd > MAX_SPEECH_CHUNK_LENGTH / 3 ? clauseEnd + 1 : wordEnd > 0 ? wordEnd : MAX_SPEECH_CHUNK_LENGTH;
+    chunks.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut).trim();
+  }
+
+  if (remaining) {
+    chunks.push(remaining);
+  }
+  return chunks;
+};
+
+// Break text into utterance-sized pieces: whole sentences, with long ones split further
+export const splitForSpeech = (text: string): string[] => {
+  const { sentences, rest } = takeCompleteSentences(text);
+  return [...sentences, rest.trim()].filter(Boolean).flatMap(splitLongSentence);
+};
@@ -0,0 +1,83 @@
+// Lightweight voice-activity detection on the microphone: reports when the RMS level
+// stays above a threshold long enough to be speech rather than a click or a cough.
+
+// Root-mean-square level of time-domain samples in [-1, 1]
+export const rmsLevel = (samples: Float32Array): number =>
+  Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+
+export interface VoiceActivityOptions {
+  onSpeechStart: () => void;
+  // RMS level counted as speech; higher than the recognizer's because the assistant may be audible
+  threshold?: number;
+  // How long the level must stay above the threshold
+  minSpeechMs?: number;
+}
+
+export interface VoiceActivityDetector {
+  // Resolves once the microphone is open; rejects if access is denied
+  start: () => Promise<void>;
+  stop: () => void;
+}
+
+const DEFAULT_THRESHOLD = 0.05;
+const DEFAULT_MIN_SPEECH_MS = 300;
+const CHECK_INTERVAL_MS = 50;
+
+export const createVoiceActivityDetector = ({
+  onSpeechStart,
+  threshold = DEFAULT_THRESHOLD,
+  minSpeechMs = DEFAULT_MIN_SPEECH_MS,
+}: VoiceActivityOptions): VoiceActivityDetector => {
+  let stream: MediaStream | null = null;
+  let audioContext: AudioContext | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let stopped = false;
+
+  const stop = () => {
+    stopped = true;
+    if (timer) clearInterval(timer);
+    timer = null;
+    audioContext?.close();
+    audioContext = null;
+    stream?.getTracks().forEach((track) => track.stop());
+    stream = null;
+  };
+
+  const start = async () => {
+    stopped = false;
+    // Echo cancellation keeps the assistant's own voice from counting as the user's
+    const micStream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true },
+    });
+    // stop() may have been called while waiting for permission
+    if (stopped) {
+      micStream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    stream = micStream;
+
+    audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(micStream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let speechStartedAt: number | null = null;
+
+    timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const now = Date.now();
+
+      if (rmsLevel(samples) < threshold) {
+        speechStartedAt = null;
+      } else if (speechStartedAt === null) {
+        speechStartedAt = now;
+      } else if (now - speechStartedAt >= minSpeechMs) {
+        stop();
+        onSpeechStart();
+      }
+    }, CHECK_INTERVAL_MS);
+  };
+
+  return { start, stop };
+};
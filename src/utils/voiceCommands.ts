@@ -0,0 +1,105 @@
+import { LANGUAGES, type AssistantLanguage } from './languages';
+
+// Spoken requests aimed at the assistant itself rather than at the search. They are matched
+// against the whole utterance, so "stop the war" is still a question while "stop" is not.
+
+export type VoiceCommand =
+  | { type: 'stop' }
+  | { type: 'repeat' }
+  | { type: 'slower' }
+  | { type: 'faster' }
+  | { type: 'more-detail' }
+  | { type: 'new-topic' }
+  // requested is the language as heard; language is undefined when it is not supported
+  | { type: 'switch-language'; requested: string; language?: AssistantLanguage }
+  | { type: 'read-sources' };
+
+export type VoiceCommandType = VoiceCommand['type'];
+
+// Shown in the help dialog
+export const VOICE_COMMANDS: Array<{ type: VoiceCommandType; examples: string[]; description: string }> = [
+  { type: 'stop', examples: ['Stop', 'Be quiet', 'Cancel'], description: 'Stop searching and speaking' },
+  { type: 'repeat', examples: ['Repeat that', 'Say that again'], description: 'Read the last answer again' },
+  { type: 'slower', examples: ['Slower', 'Slow down'], description: 'Speak more slowly' },
+  { type: 'faster', examples: ['Faster', 'Speed up'], description: 'Speak more quickly' },
+  { type: 'more-detail', examples: ['More detail', 'Tell me more'], description: 'Ask the last question again in detailed mode' },
+  { type: 'new-topic', examples: ['New topic', 'Start over'], description: 'Forget the conversation so far' },
+  {
+    type: 'switch-language',
+    examples: ['Switch to French', 'Speak Swahili'],
+    description: 'Listen and answer in another language',
+  },
+  { type: 'read-sources', examples: ['Read the sources', 'Where is that from?'], description: 'Read out where the answer came from' },
+];
+
+// Fillers around a command that do not change its meaning, e.g. "Amira, stop please"
+const LEADING_FILLER = /^((hey|ok|okay)\s+)?(amira\s+)?(please\s+|can you\s+|could you\s+)?/;
+const TRAILING_FILLER = /(\s+(please|now|amira|thanks|thank you))+$/;
+
+const SIMPLE_COMMANDS: Array<[RegExp, VoiceCommand]> = [
+  [/^(stop|cancel|enough|that's enough|be quiet|quiet|shut up|stop (talking|speaking|reading|it|that))$/, { type: 'stop' }],
+  [
+    /^(repeat( that| it| the answer)?|say (that|it) again|again|come again|what did you say)$/,
+    { type: 'repeat' },
+  ],
+  [/^((speak|talk|read|go) )?(slower|more slowly)$|^slow down$/, { type: 'slower' }],
+  [/^((speak|talk|read|go) )?(faster|quicker|more quickly)$|^speed up$/, { type: 'faster' }],
+  [
+    /^((give me |in )?more details?|tell me more( about (that|it|this))?|go on|elaborate|go into (more )?detail)$/,
+    { type: 'more-detail' },
+  ],
+  [
+    /^(new (topic|conversation|question)|start over|start again|change the (topic|subject)|forget (that|this|it|everything))$/,
+    { type: 'new-topic' },
+  ],
+  [
+    /^((read|list|what are|tell me)( me)?( the| your)? sources|sources|where (is|did) (that|this|it) (from|come from))$/,
+    { type: 'read-sources' },
+  ],
+];
+
+// "Switch to X" is always a language request; "speak X" only when X is a language we know
+const SWITCH_LANGUAGE = /^(switch|change)( the language)?( to| into)? (\S+)$/;
+const SPEAK_LANGUAGE = /^(speak|answer|talk)( in)? (\S+)$/;
+
+// Every way a language may be named: its English name and the first word of its label
+const languageNames = (language: AssistantLanguage): string[] => [
+  language.name.toLowerCase(),
+  language.label.split(' ')[0].toLowerCase(),
+];
+
+const findLanguageByName = (name: string): AssistantLanguage | undefined =>
+  LANGUAGES.find((language) => languageNames(language).includes(name));
+
+const normalize = (transcript: string): string =>
+  transcript
+    .toLowerCase()
+    .replace(/[.,!?;:"]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEADING_FILLER, '')
+    .replace(TRAILING_FILLER, '');
+
+// The command the utterance asks for, or null when it should be searched as a question
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const phrase = normalize(transcript);
+  if (!phrase) return null;
+
+  for (const [pattern, command] of SIMPLE_COMMANDS) {
+    if (pattern.test(phrase)) return command;
+  }
+
+  const switchLanguage = phrase.match(SWITCH_LANGUAGE);
+  if (switchLanguage) {
+    const requested = switchLanguage[4];
+    return { type: 'switch-language', requested, language: findLanguageByName(requested) };
+  }
+
+  const speakLanguage = phrase.match(SPEAK_LANGUAGE);
+  const spokenLanguage = speakLanguage && findLanguageByName(speakLanguage[3]);
+  if (spokenLanguage) {
+    return { type: 'switch-language', requested: speakLanguage[3], language: spokenLanguage };
+  }
+
+  return null;
+};
@@ -0,0 +1,72 @@
+import { loadPreference, savePreference } from './preferences';
+import { languageCode } from './languages';
+
+// Text-to-speech preferences chosen in the voice settings sheet
+
+export interface VoiceSettings {
+  // SpeechSynthesisVoice.voiceURI of the chosen voice; null picks one for the language
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceURI: null,
+  rate: 0.85,
+  pitch: 1.1,
+  volume: 0.9,
+};
+
+// Range of the speed slider, which voice commands also stay within
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 2;
+
+const VOICE_SETTINGS_PREFERENCE_KEY = 'voice-settings';
+
+export const loadVoiceSettings = (): VoiceSettings => ({
+  ...DEFAULT_VOICE_SETTINGS,
+  ...loadPreference<Partial<VoiceSettings>>(VOICE_SETTINGS_PREFERENCE_KEY, {}),
+});
+
+export const saveVoiceSettings = (settings: VoiceSettings): void =>
+  savePreference(VOICE_SETTINGS_PREFERENCE_KEY, settings);
+
+// How long to wait for voices before speaking with the browser default
+const VOICES_TIMEOUT_MS = 1000;
+
+// getVoices() is empty until the browser has loaded its voice list (notably in Chrome),
+// which it announces with a voiceschanged event
+export const waitForVoices = (): Promise<SpeechSynthesisVoice[]> =>
+  new Promise((resolve) => {
+    if (!('speechSynthesis' in window)) {
+      resolve([]);
+      return;
+    }
+
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+
+    const finish = () => {
+      clearTimeout(timer);
+      speechSynthesis.removeEventListener('voiceschanged', finish);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(finish, VOICES_TIMEOUT_MS);
+    speechSynthesis.addEventListener('voiceschanged', finish);
+  });
+
+const normalizeLang = (lang: string) => lang.replace('_', '-').toLowerCase();
+
+// Voices for the exact locale first, then any other voice for the same language
+export const voicesForLocale = (voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice[] => {
+  const target = normalizeLang(locale);
+  const exact = voices.filter((voice) => normalizeLang(voice.lang) === target);
+  const sameLanguage = voices.filter(
+    (voice) => normalizeLang(voice.lang) !== target && languageCode(normalizeLang(voice.lang)) === languageCode(target)
+  );
+  return [...exact, ...sameLanguage];
+};
@@ -0,0 +1,50 @@
+import { loadPreference, savePreference } from './preferences';
+
+// Hands-free mode listens for a wake phrase before taking a question. Recognizers often
+// mishear a name ("Amara", "a Mira"), so words are compared with a small edit tolerance.
+
+export const DEFAULT_WAKE_PHRASE = 'Hey Amira';
+
+const WAKE_PHRASE_PREFERENCE_KEY = 'wake-phrase';
+
+export const loadWakePhrase = (): string => loadPreference(WAKE_PHRASE_PREFERENCE_KEY, DEFAULT_WAKE_PHRASE);
+
+export const saveWakePhrase = (phrase: string): void => savePreference(WAKE_PHRASE_PREFERENCE_KEY, phrase);
+
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must match exactly; longer ones may be off by a letter per four
+const wordsMatch = (heard: string, expected: string): boolean =>
+  editDistance(heard, expected) <= Math.floor(expected.length / 4);
+
+// What was said after the wake phrase ('' when nothing was), or null when it was not heard
+export const findWakePhrase = (transcript: string, phrase: string): string | null => {
+  const expected = phrase.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (expected.length === 0) return null;
+
+  // Keep the original words so the rest of the utterance reads as it was recognized
+  const words = transcript.split(/\s+/).filter((word) => normalizeWord(word));
+  const heard = words.map(normalizeWord);
+
+  for (let start = 0; start + expected.length <= heard.length; start++) {
+    if (expected.every((word, i) => wordsMatch(heard[start + i], word))) {
+      return words
+        .slice(start + expected.length)
+        .join(' ')
+        .replace(/^[,.!?;:\s]+/, '');
+    }
+  }
+  return null;
+};
@@ -0,0 +1,127 @@
+import { isAbortError, throwIfAborted } from './abort';
+
+// Web search backends used when the model lacks current information. Firecrawl
+// searches the web and scrapes the top pages in one call; the stub backend returns
+// canned pages so the pipeline can run without network access.
+
+export interface WebPage {
+  url: string;
+  title: string;
+  content: string;
+}
+
+export interface WebSearchBackend {
+  name: string;
+  search: (query: string, limit: number, signal?: AbortSignal) => Promise<WebPage[]>;
+}
+
+export class WebSearchError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'WebSearchError';
+    this.status = status;
+  }
+}
+
+// Interface for Firecrawl /v1/search responses
+interface FirecrawlSearchResponse {
+  success: boolean;
+  data?: Array<{
+    url: string;
+    title?: string;
+    description?: string;
+    markdown?: string;
+  }>;
+  error?: string;
+}
+
+export const createFirecrawlBackend = (apiKey: string): WebSearchBackend => {
+  const search = async (query: string, limit: number, signal?: AbortSignal): Promise<WebPage[]> => {
+    throwIfAborted(signal);
+
+    let response: Response;
+    try {
+      response = await fetch('https://api.firecrawl.dev/v1/search', {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          query,
+          limit,
+          scrapeOptions: { formats: ['markdown'], onlyMainContent: true },
+        }),
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new WebSearchError(`Could not reach Firecrawl: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    console.log('Firecrawl API Response Status:', response.status);
+
+    const data: FirecrawlSearchResponse = await response.json().catch((error) => {
+      if (isAbortError(error)) throw error;
+      return { success: false };
+    });
+
+    if (!response.ok || !data.success) {
+      throw new WebSearchError(data.error || `HTTP ${response.status}: ${response.statusText}`, response.status);
+    }
+
+    return (data.data || [])
+      .map((page) => ({
+        url: page.url,
+        title: page.title || page.url,
+        content: (page.markdown || page.description || '').trim(),
+      }))
+      .filter((page) => page.content);
+  };
+
+  return { name: 'Firecrawl', search };
+};
+
+// Returns fixed pages (or pages computed from the query) without any network access
+export const createStubSearchBackend = (
+  pages: WebPage[] | ((query: string) => WebPage[]) = []
+): WebSearchBackend => ({
+  name: 'Stub search',
+  search: async (query: string, limit: number, signal?: AbortSignal) => {
+    throwIfAborted(signal);
+    return (typeof pages === 'function' ? pages(query) : pages).slice(0, limit);
+  },
+});
+
+// Build the backend selected by VITE_WEB_SEARCH_BACKEND; null disables web search
+export const createWebSearchBackendFromEnv = (
+  env: Record<string, string | undefined> = import.meta.env
+): WebSearchBackend | null => {
+  const backendName = (env.VITE_WEB_SEARCH_BACKEND || 'firecrawl').toLowerCase();
+
+  switch (backendName) {
+    case 'none':
+      return null;
+    case 'stub':
+      return createStubSearchBackend();
+    case 'firecrawl':
+    default:
+      return env.VITE_FIRECRAWL_API_KEY ? createFirecrawlBackend(env.VITE_FIRECRAWL_API_KEY) : null;
+  }
+};
+
+let activeBackend: WebSearchBackend | null | undefined;
+
+export const getWebSearchBackend = (): WebSearchBackend | null => {
+  if (activeBackend === undefined) {
+    activeBackend = createWebSearchBackendFromEnv();
+  }
+  return activeBackend;
+};
+
+// Override the configured backend, e.g. with createStubSearchBackend in tests
+export const setWebSearchBackend = (backend: WebSearchBackend | null): void => {
+  activeBackend = backend;
+};
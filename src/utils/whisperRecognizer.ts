@@ -0,0 +1,245 @@
+import type { WhisperRequest, WhisperResponse } from '../workers/whisper.worker';
+import { rmsLevel } from './voiceActivity';
+
+// On-device speech recognition: records the microphone with MediaRecorder, stops after a
+// pause in speech, and transcribes the clip with Whisper in a web worker.
+
+export const WHISPER_MODEL = import.meta.env.VITE_WHISPER_MODEL || 'Xenova/whisper-tiny';
+
+const WHISPER_SAMPLE_RATE = 16000;
+// RMS level above which the microphone is considered to be picking up speech
+const SPEECH_LEVEL = 0.02;
+// Stop once the speaker has been quiet this long after talking
+const DEFAULT_TRAILING_SILENCE_MS = 1500;
+// Give up if nobody speaks at all within this time
+const NO_SPEECH_TIMEOUT_MS = 8000;
+// Whisper works on windows of up to 30 seconds
+const MAX_RECORDING_MS = 30000;
+const LEVEL_CHECK_INTERVAL_MS = 100;
+
+// Error codes mirror SpeechRecognitionErrorEvent.error so callers can treat both engines alike
+export type WhisperErrorCode = 'not-allowed' | 'audio-capture' | 'no-speech' | 'transcription';
+
+export interface WhisperRecognizerCallbacks {
+  // The microphone is open and recording
+  onStart?: () => void;
+  onResult: (transcript: string) => void;
+  onError: (code: WhisperErrorCode, message: string) => void;
+  // Recording has stopped and the clip is being transcribed
+  onTranscribing?: () => void;
+  onEnd: () => void;
+}
+
+export interface WhisperRecognizer {
+  start: () => void;
+  stop: () => void;
+  // Stop without transcribing what was recorded
+  abort: () => void;
+}
+
+export const isWhisperSupported = (): boolean =>
+  typeof navigator !== 'undefined' &&
+  Boolean(navigator.mediaDevices?.getUserMedia) &&
+  typeof MediaRecorder !== 'undefined' &&
+  typeof Worker !== 'undefined';
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/whisper.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+// Send one clip to the worker and wait for its transcript
+const transcribe = (audio: Float32Array, language?: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const whisperWorker = getWorker();
+
+    const cleanup = () => {
+      whisperWorker.removeEventListener('message', onMessage);
+      whisperWorker.removeEventListener('error', onError);
+    };
+    const onMessage = (event: MessageEvent<WhisperResponse>) => {
+      const message = event.data;
+      if (message.id !== id || message.type === 'progress') return;
+      cleanup();
+      if (message.type === 'transcript') {
+        resolve(message.text);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    const onError = (event: ErrorEvent) => {
+      cleanup();
+      worker?.terminate();
+      worker = null;
+      reject(new Error(event.message || 'Whisper worker failed to load'));
+    };
+
+    whisperWorker.addEventListener('message', onMessage);
+    whisperWorker.addEventListener('error', onError);
+
+    const request: WhisperRequest = { id, model: WHISPER_MODEL, audio, language };
+    whisperWorker.postMessage(request, [audio.buffer]);
+  });
+
+// Decode a recorded clip into 16 kHz mono samples
+const decodeClip = async (blob: Blob): Promise<Float32Array> => {
+  const audioContext = new AudioContext({ sampleRate: WHISPER_SAMPLE_RATE });
+  try {
+    const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+    // Copy out of the AudioBuffer so the samples can be transferred to the worker
+    return new Float32Array(buffer.getChannelData(0));
+  } finally {
+    audioContext.close();
+  }
+};
+
+export const createWhisperRecognizer = (
+  callbacks: WhisperRecognizerCallbacks,
+  options: { language?: string; trailingSilenceMs?: number } = {}
+): WhisperRecognizer => {
+  const trailingSilenceMs = options.trailingSilenceMs ?? DEFAULT_TRAILING_SILENCE_MS;
+  let stream: MediaStream | null = null;
+  let recorder: MediaRecorder | null = null;
+  let meterContext: AudioContext | null = null;
+  let meterTimer: ReturnType<typeof setInterval> | null = null;
+  let discardRecording = false;
+  // Set by stop() or abort() while start() is still waiting for the microphone
+  let stopRequested = false;
+
+  const releaseMicrophone = () => {
+    if (meterTimer) clearInterval(meterTimer);
+    meterTimer = null;
+    meterContext?.close();
+    meterContext = null;
+    stream?.getTracks().forEach((track) => track.stop());
+    stream = null;
+  };
+
+  // Stop recording on trailing silence, on the length limit, or if nobody speaks
+  const watchLevels = (micStream: MediaStream) => {
+    meterContext = new AudioContext();
+    const analyser = meterContext.createAnalyser();
+    analyser.fftSize = 2048;
+    meterContext.createMediaStreamSource(micStream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    const startedAt = Date.now();
+    let heardSpeech = false;
+    let lastSpeechAt = startedAt;
+
+    meterTimer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = rmsLevel(samples);
+      const now = Date.now();
+
+      if (rms > SPEECH_LEVEL) {
+        heardSpeech = true;
+        lastSpeechAt = now;
+      }
+
+      if (!heardSpeech && now - startedAt > NO_SPEECH_TIMEOUT_MS) {
+        discardRecording = true;
+        callbacks.onError('no-speech', 'No speech was detected.');
+        stop();
+      } else if ((heardSpeech && now - lastSpeechAt > trailingSilenceMs) || now - startedAt > MAX_RECORDING_MS) {
+        stop();
+      }
+    }, LEVEL_CHECK_INTERVAL_MS);
+  };
+
+  const handleRecordingStopped = async (chunks: Blob[], mimeType: string) => {
+    releaseMicrophone();
+    if (discardRecording || chunks.length === 0) {
+      callbacks.onEnd();
+      return;
+    }
+
+    callbacks.onTranscribing?.();
+    try {
+      const audio = await decodeClip(new Blob(chunks, { type: mimeType }));
+      const transcript = await transcribe(audio, options.language);
+      if (transcript) {
+        callbacks.onResult(transcript);
+      } else {
+        callbacks.onError('no-speech', 'No speech was recognized.');
+      }
+    } catch (error) {
+      console.error('Whisper transcription failed:', error);
+      callbacks.onError('transcription', error instanceof Error ? error.message : 'Transcription failed.');
+    } finally {
+      callbacks.onEnd();
+    }
+  };
+
+  const start = async () => {
+    if (recorder?.state === 'recording') return;
+    discardRecording = false;
+    stopRequested = false;
+
+    let micStream: MediaStream;
+    try {
+      micStream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (error) {
+      const denied = error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError');
+      callbacks.onError(denied ? 'not-allowed' : 'audio-capture', error instanceof Error ? error.message : 'Microphone unavailable.');
+      callbacks.onEnd();
+      return;
+    }
+
+    // Cancelled during the permission prompt: close the microphone without recording
+    if (stopRequested) {
+      micStream.getTracks().forEach((track) => track.stop());
+      callbacks.onEnd();
+      return;
+    }
+    stream = micStream;
+
+    try {
+      const chunks: Blob[] = [];
+      const activeRecorder = new MediaRecorder(micStream);
+      activeRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      activeRecorder.onstop = () => handleRecordingStopped(chunks, activeRecorder.mimeType);
+      recorder = activeRecorder;
+
+      activeRecorder.start();
+      watchLevels(micStream);
+    } catch (error) {
+      console.error('Could not start recording:', error);
+      callbacks.onError('audio-capture', error instanceof Error ? error.message : 'Could not record the microphone.');
+      discardRecording = true;
+      // A recorder that did start ends through handleRecordingStopped, which calls onEnd
+      if (recorder?.state === 'recording') {
+        recorder.stop();
+      } else {
+        releaseMicrophone();
+        callbacks.onEnd();
+      }
+      return;
+    }
+    callbacks.onStart?.();
+  };
+
+  const stop = () => {
+    if (recorder?.state === 'recording') {
+      recorder.stop();
+    } else {
+      stopRequested = true;
+      releaseMicrophone();
+    }
+  };
+
+  const abort = () => {
+    discardRecording = true;
+    stop();
+  };
+
+  return { start, stop, abort };
+};
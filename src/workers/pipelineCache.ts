@@ -0,0 +1,31 @@
+// Loads transformers.js pipelines for the workers, once per task and model. Models are
+// downloaded and cached by the browser on first use.
+import { pipeline, type ProgressInfo } from '@huggingface/transformers';
+
+export type PipelineTask = 'automatic-speech-recognition' | 'summarization';
+
+// pipeline()'s generic signature is too complex for the compiler; narrow it to what the workers use
+const loadPipeline = pipeline as unknown as (
+  task: PipelineTask,
+  model: string,
+  options: { progress_callback: (info: ProgressInfo) => void }
+) => Promise<unknown>;
+
+const pipelines = new Map<string, Promise<unknown>>();
+
+// T is the callable the task produces; onProgress gets download progress (0-100) while it loads
+export const loadCachedPipeline = <T>(task: PipelineTask, model: string, onProgress: (progress: number) => void): Promise<T> => {
+  const key = `${task}:${model}`;
+  let loaded = pipelines.get(key);
+  if (!loaded) {
+    loaded = loadPipeline(task, model, {
+      progress_callback: (info) => {
+        if (info.status === 'progress') onProgress(info.progress);
+      },
+    });
+    // Let a failed download be retried on the next request
+    loaded.catch(() => pipelines.delete(key));
+    pipelines.set(key, loaded);
+  }
+  return loaded as Promise<T>;
+};
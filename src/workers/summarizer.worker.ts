@@ -0,0 +1,41 @@
+// Runs a distilled summarization model off the main thread. The model is downloaded
+// and cached by the browser on first use, after which summaries work offline.
+import type { SummarizationOutput } from '@huggingface/transformers';
+import { loadCachedPipeline } from './pipelineCache';
+
+export interface SummarizerRequest {
+  id: number;
+  model: string;
+  text: string;
+  minTokens: number;
+  maxTokens: number;
+}
+
+export type SummarizerResponse =
+  | { id: number; type: 'summary'; summary: string }
+  | { id: number; type: 'error'; message: string }
+  // Model download progress (0-100), reported while the pipeline loads
+  | { id: number; type: 'progress'; progress: number };
+
+type Summarizer = (text: string, options: { min_length: number; max_new_tokens: number }) => Promise<SummarizationOutput>;
+
+const loadSummarizer = (model: string, id: number): Promise<Summarizer> =>
+  loadCachedPipeline<Summarizer>('summarization', model, (progress) => {
+    self.postMessage({ id, type: 'progress', progress } satisfies SummarizerResponse);
+  });
+
+self.onmessage = async (event: MessageEvent<SummarizerRequest>) => {
+  const { id, model, text, minTokens, maxTokens } = event.data;
+
+  try {
+    const summarizer = await loadSummarizer(model, id);
+    const output = await summarizer(text, { min_length: minTokens, max_new_tokens: maxTokens });
+    self.postMessage({ id, type: 'summary', summary: output[0]?.summary_text ?? '' } satisfies SummarizerResponse);
+  } catch (error) {
+    self.postMessage({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown summarizer error',
+    } satisfies SummarizerResponse);
+  }
+};
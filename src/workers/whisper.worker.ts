@@ -0,0 +1,45 @@
+// Transcribes recorded microphone audio with Whisper off the main thread. The model is
+// downloaded and cached by the browser on first use.
+import { loadCachedPipeline } from './pipelineCache';
+
+export interface WhisperRequest {
+  id: number;
+  model: string;
+  // Mono PCM at 16 kHz, as Whisper expects
+  audio: Float32Array;
+  // Whisper language name or code (e.g. 'english', 'fr'); omitted for English-only models
+  language?: string;
+}
+
+export type WhisperResponse =
+  | { id: number; type: 'transcript'; text: string }
+  | { id: number; type: 'error'; message: string }
+  // Model download progress (0-100), reported while the pipeline loads
+  | { id: number; type: 'progress'; progress: number };
+
+type Transcriber = (
+  audio: Float32Array,
+  options: { language?: string; task: 'transcribe'; chunk_length_s: number }
+) => Promise<{ text: string } | Array<{ text: string }>>;
+
+const loadTranscriber = (model: string, id: number): Promise<Transcriber> =>
+  loadCachedPipeline<Transcriber>('automatic-speech-recognition', model, (progress) => {
+    self.postMessage({ id, type: 'progress', progress } satisfies WhisperResponse);
+  });
+
+self.onmessage = async (event: MessageEvent<WhisperRequest>) => {
+  const { id, model, audio, language } = event.data;
+
+  try {
+    const transcriber = await loadTranscriber(model, id);
+    const output = await transcriber(audio, { language, task: 'transcribe', chunk_length_s: 30 });
+    const text = (Array.isArray(output) ? output.map((chunk) => chunk.text).join(' ') : output.text).trim();
+    self.postMessage({ id, type: 'transcript', text } satisfies WhisperResponse);
+  } catch (error) {
+    self.postMessage({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown transcription error',
+    } satisfies WhisperResponse);
+  }
+};